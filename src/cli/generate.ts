@@ -0,0 +1,110 @@
+import { promises as fs } from "node:fs";
+import { extname } from "node:path";
+import { BATCH_CONCURRENCY, run_batch } from "../utils/batch-generator";
+import { manifest_error, parse_manifest } from "../utils/batch-manifest";
+import { shared_browser_pool } from "../utils/browser-pool";
+import { flush_cache, setup_cache } from "../utils/cache-manager";
+
+const USAGE =
+	"Usage: pnpm og:generate <manifest.json|manifest.csv> [--out=<dir>] [--warm-cache] [--concurrency=<n>] [--report=<file.json>]";
+
+// Usage: pnpm og:generate posts.csv --out=static/og --concurrency=4
+async function main() {
+	const args = process.argv.slice(2);
+	const manifest_path = args.find((arg) => !arg.startsWith("--"));
+
+	let output_dir: string | undefined;
+	let warm_cache = false;
+	let concurrency = BATCH_CONCURRENCY;
+	let report_path: string | undefined;
+
+	for (const arg of args) {
+		const [name, value] = arg.split(/=(.*)/s);
+		if (name === "--out") {
+			output_dir = value;
+		} else if (name === "--warm-cache") {
+			warm_cache = true;
+		} else if (name === "--concurrency") {
+			concurrency = Number(value);
+		} else if (name === "--report") {
+			report_path = value;
+		} else if (arg.startsWith("--")) {
+			console.error(`Unknown option ${name}\n${USAGE}`);
+			process.exit(1);
+		}
+	}
+
+	if (!manifest_path || (!output_dir && !warm_cache)) {
+		console.error(`${USAGE}\nPass --out, --warm-cache or both.`);
+		process.exit(1);
+	}
+
+	if (!Number.isInteger(concurrency) || concurrency < 1) {
+		console.error("--concurrency must be a positive integer");
+		process.exit(1);
+	}
+
+	let items;
+	try {
+		items = parse_manifest(
+			await fs.readFile(manifest_path, "utf-8"),
+			extname(manifest_path).toLowerCase() === ".csv" ? "csv" : "json"
+		);
+	} catch (error) {
+		console.error(
+			error instanceof manifest_error
+				? `Invalid manifest: ${error.message}`
+				: `Could not read ${manifest_path}: ${(error as Error).message}`
+		);
+		process.exit(1);
+	}
+
+	// Leave ./cache alone unless warming it
+	if (warm_cache) {
+		setup_cache();
+	}
+
+	console.log(
+		`🔥 Generating ${items.length} images (concurrency ${concurrency})...`
+	);
+	const report = await run_batch(items, {
+		concurrency,
+		output_dir,
+		warm_cache,
+	});
+
+	for (const result of report.results) {
+		if (result.status === "failed") {
+			console.error(`❌ #${result.index}: ${result.error}`);
+			for (const [field, message] of Object.entries(result.errors || {})) {
+				console.error(`   ${field}: ${message}`);
+			}
+		} else {
+			console.log(
+				`${result.status === "cached" ? "✅" : "🔄"} #${result.index}: ${
+					result.file || result.cache_key
+				} (${result.duration_ms}ms)`
+			);
+		}
+	}
+
+	console.log(
+		`📦 ${report.generated} generated, ${report.cached} cached, ${report.failed} failed in ${report.duration_ms}ms`
+	);
+
+	if (report_path) {
+		await fs.writeFile(report_path, JSON.stringify(report, null, "\t"));
+		console.log(`📝 Report written to ${report_path}`);
+	}
+
+	await flush_cache();
+	await shared_browser_pool.close();
+	// Cache timers keep the event loop alive, so exit explicitly
+	process.exit(report.failed > 0 ? 1 : 0);
+}
+
+main().catch(async (error) => {
+	console.error("❌ Batch generation failed:", error);
+	await shared_browser_pool.close().catch(() => {});
+	process.exit(1);
+});
@@ -0,0 +1,58 @@
+import { readFileSync } from "node:fs";
+import { parse_signing_keys, sign_og_url } from "../utils/url-signer";
+
+// Usage: pnpm og:sign <base-url> title="Hello World" author=Me [--kid=2025-01] [--expires-in=3600]
+//        pnpm og:sign <base-url> --body=payload.json   (signs a POST /og request)
+function main() {
+	const args = process.argv.slice(2);
+	const base_url = args.find(
+		(arg) => !arg.includes("=") && !arg.startsWith("--")
+	);
+
+	if (!base_url) {
+		console.error(
+			'Usage: pnpm og:sign <base-url> title="Hello World" [name=value ...] [--kid=<kid>] [--expires-in=<seconds>] [--body=<file.json>]'
+		);
+		process.exit(1);
+	}
+
+	const params: Record<string, string> = {};
+	let kid: string | undefined;
+	let expires_in: number | undefined;
+	let body: string | undefined;
+
+	for (const arg of args) {
+		if (arg === base_url) {
+			continue;
+		}
+		const separator = arg.indexOf("=");
+		const name = arg.slice(0, separator);
+		const value = arg.slice(separator + 1);
+
+		if (name === "--kid") {
+			kid = value;
+		} else if (name === "--expires-in") {
+			expires_in = Number(value);
+		} else if (name === "--body") {
+			// Signed byte for byte - send exactly this file as the request body
+			body = readFileSync(value, "utf-8");
+		} else if (separator > 0) {
+			params[name] = value;
+		}
+	}
+
+	const keys = parse_signing_keys();
+	const key = kid ? keys.find((k) => k.kid === kid) : keys[0];
+	if (!key) {
+		console.error(
+			kid
+				? `Signing key "${kid}" not found in OG_SIGNING_KEYS`
+				: "No signing key configured (set OG_SIGNING_KEYS)"
+		);
+		process.exit(1);
+	}
+
+	console.log(sign_og_url(base_url, params, { key, expires_in, body }));
+}
+
+main();
@@ -0,0 +1,14 @@
+import { Context } from "hono";
+
+// Bearer ADMIN_TOKEN auth for cache management and batch generation
+export const require_admin_auth = async (c: Context, next: Function) => {
+	const token = c.req.header("Authorization");
+	// An unset ADMIN_TOKEN disables these routes rather than matching "Bearer undefined"
+	if (
+		!process.env.ADMIN_TOKEN ||
+		token !== `Bearer ${process.env.ADMIN_TOKEN}`
+	) {
+		return c.json({ error: "Unauthorized" }, 401);
+	}
+	return await next();
+};
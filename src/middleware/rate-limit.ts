@@ -1,8 +1,41 @@
-import { Ratelimit } from "@upstash/ratelimit";
 import { Redis } from "@upstash/redis";
 import { Context } from "hono";
+import {
+	ANONYMOUS_TIER,
+	find_api_key,
+	get_anonymous_tier,
+	rate_limit_tier,
+} from "../utils/api-keys";
+import { rate_limit_rejections } from "../utils/metrics";
+import {
+	memory_rate_limit_backend,
+	next_month_start,
+	rate_limit_backend,
+	rate_limit_result,
+	upstash_rate_limit_backend,
+	usage_counter,
+	usage_month,
+} from "../utils/rate-limiter";
+import { get_client_ip } from "../utils/request-helpers";
+import { annotate_request_log, request_log } from "./request-logger";
 
-export let ratelimit: Ratelimit | null = null;
+// Who a request is limited as: an API key, or an anonymous client IP
+export interface rate_limit_client {
+	id: string; // API key id, or "anonymous"
+	bucket: string; // Rate limit bucket, e.g. key:docs-team or ip:203.0.113.7
+	tier: rate_limit_tier;
+}
+
+declare module "hono" {
+	interface ContextVariableMap {
+		rate_limit_client: rate_limit_client;
+	}
+}
+
+type quota = "requests" | "renders" | "monthly_requests" | "monthly_renders";
+
+// In memory unless setup_rate_limiting() finds Upstash
+export let rate_limiter: rate_limit_backend = new memory_rate_limit_backend();
 
 // Initialize rate limiting
 export function setup_rate_limiting() {
@@ -10,82 +43,152 @@ export function setup_rate_limiting() {
 		process.env.NODE_ENV === "production" &&
 		process.env.UPSTASH_REDIS_REST_URL
 	) {
-		const redis = new Redis({
-			url: process.env.UPSTASH_REDIS_REST_URL,
-			token: process.env.UPSTASH_REDIS_REST_TOKEN,
-		});
+		rate_limiter = new upstash_rate_limit_backend(
+			new Redis({
+				url: process.env.UPSTASH_REDIS_REST_URL,
+				token: process.env.UPSTASH_REDIS_REST_TOKEN,
+			})
+		);
+	}
+}
 
-		ratelimit = new Ratelimit({
-			redis,
-			limiter: Ratelimit.slidingWindow(
-				Number(process.env.RATE_LIMIT_MAX_REQUESTS) || 60,
-				`${Number(process.env.RATE_LIMIT_WINDOW_MS) || 60000}ms`
-			),
-			analytics: true,
-			prefix: "og-image-gen",
+// X-RateLimit-* for requests, X-RateLimit-Render-* for renders
+function set_rate_limit_headers(
+	c: Context,
+	prefix: string,
+	result: rate_limit_result
+): void {
+	c.header(`${prefix}-Limit`, String(result.limit));
+	c.header(`${prefix}-Remaining`, String(result.remaining));
+	c.header(`${prefix}-Reset`, String(Math.ceil(result.reset / 1000)));
+}
+
+function reject(
+	c: Context,
+	client: rate_limit_client,
+	exceeded: quota,
+	limit: number,
+	reset: number
+): Response {
+	rate_limit_rejections.inc({
+		limiter: rate_limiter.name,
+		tier: client.tier.name,
+		quota: exceeded,
+	});
+	annotate_request_log(c, { rate_limited: exceeded });
+
+	const retry_after = Math.max(1, Math.ceil((reset - Date.now()) / 1000));
+	c.header("Retry-After", String(retry_after));
+	c.header("Cache-Control", "no-store");
+	return c.json(
+		{
+			error: exceeded.startsWith("monthly_")
+				? `Monthly ${exceeded.slice("monthly_".length)} quota exceeded`
+				: "Too many requests",
+			quota: exceeded,
+			limit,
+			reset,
+			retry_after,
+		},
+		429
+	);
+}
+
+// Check the window for one counter, then count it against the monthly quota.
+// Returns the 429 response when either is used up
+async function consume(
+	c: Context,
+	client: rate_limit_client,
+	counter: usage_counter,
+	header_prefix: string
+): Promise<Response | null> {
+	try {
+		return await check_and_count(c, client, counter, header_prefix);
+	} catch (error) {
+		// A Redis outage shouldn't take image serving down with it
+		request_log(c).error("Rate limiter unavailable, allowing request", {
+			error,
 		});
+		return null;
 	}
 }
 
-// Rate limit middleware for Upstash Redis
-export async function upstash_rate_limit_middleware(
+async function check_and_count(
 	c: Context,
-	next: Function
-) {
-	if (!ratelimit) {
-		return next();
-	}
+	client: rate_limit_client,
+	counter: usage_counter,
+	header_prefix: string
+): Promise<Response | null> {
+	const backend = rate_limiter;
+	const month = usage_month();
 
-	const client_ip =
-		c.req.header("x-forwarded-for") || c.req.header("x-real-ip") || "unknown";
-	const { success, limit, remaining, reset } = await ratelimit.limit(client_ip);
-
-	if (!success) {
-		return c.json(
-			{
-				error: "Too many requests",
-				limit,
-				remaining,
-				reset,
-				retry_after: Math.ceil((reset - Date.now()) / 1000),
-			},
-			429
-		);
+	const result = await backend.limit(
+		`${counter}:${client.bucket}`,
+		client.tier[counter],
+		client.tier.window_ms
+	);
+	set_rate_limit_headers(c, header_prefix, result);
+	if (!result.success) {
+		return reject(c, client, counter, result.limit, result.reset);
 	}
 
-	return next();
+	// Each anonymous IP has its own monthly quota, so one client can't use up
+	// the month for everyone; the "anonymous" total is only for reporting
+	const quota_id = client.id === ANONYMOUS_TIER ? client.bucket : client.id;
+	const monthly_limit = client.tier[`monthly_${counter}`];
+	if (monthly_limit !== undefined) {
+		// Compared after counting, so concurrent requests can't all take the
+		// last one. Rejected requests are taken back off, as they weren't served
+		const used = await backend.increment_usage(quota_id, month, counter);
+		if (used > monthly_limit) {
+			await backend.increment_usage(quota_id, month, counter, -1);
+			return reject(
+				c,
+				client,
+				`monthly_${counter}`,
+				monthly_limit,
+				next_month_start()
+			);
+		}
+	}
+	if (monthly_limit === undefined || quota_id !== client.id) {
+		await backend.increment_usage(client.id, month, counter);
+	}
+	return null;
 }
 
-// Fallback in-memory rate limiting
-const request_counts = new Map<string, { count: number; reset_time: number }>();
+// Identify the caller by X-API-Key (or ?api_key=), falling back to their IP,
+// and apply their tier's request limits
+export async function rate_limit_middleware(c: Context, next: Function) {
+	const presented = c.req.header("x-api-key") || c.req.query("api_key");
+	let client: rate_limit_client;
 
-export async function fallback_rate_limit_middleware(
-	c: Context,
-	next: Function
-) {
-	const client_ip =
-		c.req.header("x-forwarded-for") || c.req.header("x-real-ip") || "unknown";
-	const now = Date.now();
-	const window_ms = Number(process.env.RATE_LIMIT_WINDOW_MS) || 60 * 1000;
-	const max_requests = Number(process.env.RATE_LIMIT_MAX_REQUESTS) || 60;
-
-	const client_data = request_counts.get(client_ip);
-
-	if (!client_data || now > client_data.reset_time) {
-		request_counts.set(client_ip, { count: 1, reset_time: now + window_ms });
-		return next();
+	if (presented) {
+		const key = find_api_key(presented);
+		if (!key) {
+			return c.json({ error: "Invalid API key" }, 401);
+		}
+		client = { id: key.id, bucket: `key:${key.id}`, tier: key.tier };
+	} else {
+		client = {
+			id: ANONYMOUS_TIER,
+			bucket: `ip:${get_client_ip(c)}`,
+			tier: get_anonymous_tier(),
+		};
 	}
 
-	if (client_data.count >= max_requests) {
-		return c.json(
-			{
-				error: "Too many requests",
-				retry_after: Math.ceil((client_data.reset_time - now) / 1000),
-			},
-			429
-		);
-	}
+	c.set("rate_limit_client", client);
+	annotate_request_log(c, { api_key: client.id, tier: client.tier.name });
+
+	const rejection = await consume(c, client, "requests", "X-RateLimit");
+	return rejection || next();
+}
 
-	client_data.count++;
-	return next();
+// Count a cache miss against the caller's render limits, before rendering it.
+// Returns the 429 response when they're used up
+export async function consume_render_quota(
+	c: Context
+): Promise<Response | null> {
+	const client = c.get("rate_limit_client");
+	return client ? consume(c, client, "renders", "X-RateLimit-Render") : null;
 }
@@ -0,0 +1,66 @@
+import { Context } from "hono";
+import { randomUUID } from "node:crypto";
+import { log, log_fields, log_level, logger } from "../utils/logger";
+import { get_client_ip } from "../utils/request-helpers";
+
+declare module "hono" {
+	interface ContextVariableMap {
+		request_id: string;
+		logger: logger;
+		log_fields: log_fields;
+	}
+}
+
+// Accept upstream IDs (load balancer, CDN, caller) unless they look unsafe to log
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Polled constantly, so only worth seeing at debug level
+const QUIET_PATHS = ["/health", "/metrics"];
+
+// Logger bound to this request's ID, for errors logged mid-request
+export function request_log(c: Context): logger {
+	return c.get("logger") || log;
+}
+
+// Add fields (cache status, timings, errors ...) to this request's log line
+export function annotate_request_log(c: Context, fields: log_fields): void {
+	c.set("log_fields", { ...c.get("log_fields"), ...fields });
+}
+
+// Assign an X-Request-Id and write one structured line per request
+export async function request_logger_middleware(c: Context, next: Function) {
+	const incoming = c.req.header("x-request-id");
+	const request_id =
+		incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+	const start_time = performance.now();
+
+	c.set("request_id", request_id);
+	c.set("logger", log.child({ request_id }));
+	c.header("X-Request-Id", request_id);
+
+	await next();
+
+	const status = c.res.status;
+	const level: log_level =
+		status >= 500
+			? "error"
+			: status >= 400
+			? "warn"
+			: QUIET_PATHS.includes(c.req.path)
+			? "debug"
+			: "info";
+
+	request_log(c).write(level, `${c.req.method} ${c.req.path} ${status}`, {
+		method: c.req.method,
+		path: c.req.path,
+		route: c.req.routePath,
+		status,
+		duration_ms: Math.round(performance.now() - start_time),
+		client_ip: get_client_ip(c),
+		referer: c.req.header("referer"),
+		user_agent: c.req.header("user-agent")?.substring(0, 200),
+		...c.get("log_fields"),
+		// Unhandled errors caught by Hono, with their stack
+		error: c.get("log_fields")?.error ?? c.error,
+	});
+}
@@ -1,110 +1,161 @@
 import { Context, Hono } from "hono";
-import { promises as fs } from "node:fs";
-import { join } from "node:path";
-import { ram_cache, CACHE_DIR, MAX_RAM_CACHE_SIZE } from "../utils/cache-manager";
+import { require_admin_auth } from "../middleware/admin-auth";
+import {
+	CACHE_MAX_PAGE_SIZE,
+	CACHE_PAGE_SIZE,
+	cache_filter,
+	describe_cache_entry,
+	list_cache_entries,
+	purge_cache_entries,
+} from "../utils/cache-inspector";
+import { cache_store } from "../utils/cache-manager";
+import { OUTPUT_FORMATS } from "../utils/image-format";
 
 const cache_routes = new Hono();
 
-// Auth middleware for cache management
-const require_auth = async (c: Context, next: Function) => {
-	const token = c.req.header("Authorization");
-	if (!token || token !== `Bearer ${process.env.ADMIN_TOKEN}`) {
-		return c.json({ error: "Unauthorized" }, 401);
+// Every cache route exposes or destroys cached data, so all need ADMIN_TOKEN
+cache_routes.use("*", require_admin_auth);
+
+function read_filter(c: Context): cache_filter {
+	return {
+		prefix: c.req.query("prefix") || undefined,
+		search: c.req.query("search") || undefined,
+		match: c.req.query("match") || undefined,
+	};
+}
+
+// Parse a positive integer query param, or return why it can't be used
+function read_positive_int(
+	value: string | undefined,
+	fallback: number,
+	max: number = Number.MAX_SAFE_INTEGER
+): number | null {
+	if (value === undefined || value === "") {
+		return fallback;
 	}
-	return await next();
-};
-
-// Clear all caches
-cache_routes.delete("/", require_auth, async (c: Context) => {
-	const ram_cleared = ram_cache.size;
-	ram_cache.clear();
-
-	// Clear disk cache
-	let disk_cleared = 0;
-	try {
-		const files = await fs.readdir(CACHE_DIR);
-		const image_files = files.filter((f) => f.endsWith(".png") || f.endsWith(".jpg") || f.endsWith(".jpeg"));
-		await Promise.all(image_files.map((f) => fs.unlink(join(CACHE_DIR, f))));
-		disk_cleared = image_files.length;
-	} catch (error) {
-		console.error("Error clearing disk cache:", error);
+	const number = Number(value);
+	return Number.isInteger(number) && number >= 1 && number <= max
+		? number
+		: null;
+}
+
+// Clear all caches, or only entries matching ?match= (e.g. one website)
+cache_routes.delete("/", async (c: Context) => {
+	const filter = read_filter(c);
+
+	if (filter.match || filter.prefix || filter.search) {
+		const { matched, deleted } = await purge_cache_entries(filter);
+		return c.json({
+			message: `Purged ${matched} matching cache entries`,
+			matched,
+			...Object.fromEntries(
+				Object.entries(deleted).map(([tier, count]) => [
+					`${tier}_deleted_entries`,
+					count,
+				])
+			),
+		});
 	}
 
+	const cleared = await cache_store.clear_per_tier();
+
 	return c.json({
 		message: "Cache cleared successfully",
-		ram_cleared_entries: ram_cleared,
-		disk_cleared_entries: disk_cleared,
+		...Object.fromEntries(
+			Object.entries(cleared).map(([tier, count]) => [
+				`${tier}_cleared_entries`,
+				count,
+			])
+		),
 	});
 });
 
 // Delete specific cache entry
-cache_routes.delete("/:key", require_auth, async (c: Context) => {
+cache_routes.delete("/:key", async (c: Context) => {
 	const key = c.req.param("key");
 	const decoded_key = decodeURIComponent(key);
 
-	// Delete from RAM
-	const ram_deleted = ram_cache.delete(decoded_key);
-
-	// Delete from disk
-	let disk_deleted = false;
-	try {
-		const file_path = join(
-			CACHE_DIR,
-			`${decoded_key.replace(/[^a-zA-Z0-9\-_]/g, "_")}.jpg`
-		);
-		await fs.unlink(file_path);
-		disk_deleted = true;
-	} catch {
-		// Try PNG format
-		try {
-			const file_path = join(
-				CACHE_DIR,
-				`${decoded_key.replace(/[^a-zA-Z0-9\-_]/g, "_")}.png`
-			);
-			await fs.unlink(file_path);
-			disk_deleted = true;
-		} catch {
-			// File might not exist
-		}
-	}
+	// Delete from every tier
+	const deleted = await cache_store.delete_per_tier(decoded_key);
 
 	return c.json({
-		message:
-			ram_deleted || disk_deleted
-				? "Cache entry deleted"
-				: "Cache entry not found",
+		message: Object.values(deleted).some(Boolean)
+			? "Cache entry deleted"
+			: "Cache entry not found",
 		key: key,
-		ram_deleted,
-		disk_deleted,
+		...Object.fromEntries(
+			Object.entries(deleted).map(([tier, result]) => [
+				`${tier}_deleted`,
+				result,
+			])
+		),
 	});
 });
 
-// View cache status
+// View cache status and a page of entries, optionally filtered
 cache_routes.get("/", async (c: Context) => {
-	const ram_entries = Array.from(ram_cache.keys());
-
-	// Get disk entries
-	let disk_entries: string[] = [];
-	try {
-		const files = await fs.readdir(CACHE_DIR);
-		disk_entries = files
-			.filter((f) => f.endsWith(".png") || f.endsWith(".jpg") || f.endsWith(".jpeg"))
-			.map((f) => f.replace(/\.(png|jpg|jpeg)$/, ""));
-	} catch {
-		// Directory might not exist yet
+	const page = read_positive_int(c.req.query("page"), 1);
+	const limit = read_positive_int(
+		c.req.query("limit"),
+		CACHE_PAGE_SIZE,
+		CACHE_MAX_PAGE_SIZE
+	);
+	if (page === null || limit === null) {
+		return c.json(
+			{
+				error: `page must be a positive integer and limit between 1 and ${CACHE_MAX_PAGE_SIZE}`,
+			},
+			400
+		);
 	}
 
-	return c.json({
-		ram_cache: {
-			entries: ram_entries.length,
-			max_size: MAX_RAM_CACHE_SIZE,
-			keys: ram_entries,
-		},
-		disk_cache: {
-			entries: disk_entries.length,
-			keys: disk_entries,
-		},
-	});
+	const [tiers, listing] = await Promise.all([
+		Promise.all(
+			cache_store.tiers.map(async (tier) => {
+				const stats = await tier.stats();
+				return [
+					`${tier.name}_cache`,
+					{
+						entries: stats.entries,
+						bytes: stats.bytes,
+						max_size: stats.max_entries,
+						max_bytes: stats.max_bytes,
+						hits: stats.hits,
+						misses: stats.misses,
+						evictions: stats.evictions,
+					},
+				] as const;
+			})
+		),
+		list_cache_entries(read_filter(c), page, limit),
+	]);
+
+	return c.json({ ...Object.fromEntries(tiers), ...listing });
+});
+
+// One entry's details in every tier
+cache_routes.get("/:key", async (c: Context) => {
+	const key = decodeURIComponent(c.req.param("key"));
+	const entry = await describe_cache_entry(key);
+	if (!entry) {
+		return c.json({ error: "Cache entry not found", key }, 404);
+	}
+	return c.json(entry);
+});
+
+// View a cached image (doesn't count as a hit or promote it between tiers)
+cache_routes.get("/:key/image", async (c: Context) => {
+	const key = decodeURIComponent(c.req.param("key"));
+	const result = await cache_store.lookup(key, { peek: true });
+	if (!result) {
+		return c.json({ error: "Cache entry not found", key }, 404);
+	}
+
+	c.header("Content-Type", OUTPUT_FORMATS[result.entry.format].content_type);
+	c.header("Content-Length", result.entry.buffer.length.toString());
+	c.header("Cache-Control", "private, no-store");
+	c.header("X-Cache-Status", `HIT-${result.source.toUpperCase()}`);
+	return c.body(result.entry.buffer);
 });
 
-export { cache_routes };
\ No newline at end of file
+export { cache_routes };
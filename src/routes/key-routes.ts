@@ -0,0 +1,50 @@
+import { Context, Hono } from "hono";
+import { require_admin_auth } from "../middleware/admin-auth";
+import { rate_limiter } from "../middleware/rate-limit";
+import {
+	ANONYMOUS_TIER,
+	get_anonymous_tier,
+	list_api_keys,
+	rate_limit_tier,
+} from "../utils/api-keys";
+import { usage_month } from "../utils/rate-limiter";
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+const key_routes = new Hono();
+
+key_routes.use("*", require_admin_auth);
+
+// Each API key's tier and usage for ?month=YYYY-MM (default: this month).
+// Anonymous usage is one total across every client IP
+key_routes.get("/", async (c: Context) => {
+	const month = c.req.query("month") || usage_month();
+	if (!MONTH_PATTERN.test(month)) {
+		return c.json({ error: "month must be YYYY-MM" }, 400);
+	}
+
+	const owners: { id: string; tier: rate_limit_tier }[] = [
+		...list_api_keys(),
+		{ id: ANONYMOUS_TIER, tier: get_anonymous_tier() },
+	];
+
+	const keys = await Promise.all(
+		owners.map(async ({ id, tier }) => ({
+			id,
+			tier: tier.name,
+			limits: {
+				window_ms: tier.window_ms,
+				requests: tier.requests,
+				renders: tier.renders,
+				monthly_requests: tier.monthly_requests ?? null,
+				monthly_renders: tier.monthly_renders ?? null,
+			},
+			// requests includes cache hits, renders counts misses
+			usage: await rate_limiter.get_usage(id, month),
+		}))
+	);
+
+	return c.json({ month, backend: rate_limiter.name, keys });
+});
+
+export { key_routes };
@@ -1,67 +1,360 @@
 import { Context, Hono } from "hono";
+import { bodyLimit } from "hono/body-limit";
 import { promises as fs } from "node:fs";
 import { join } from "node:path";
-import { og_params } from "../types/og-params";
-import { image_generator } from "../utils/image-generator";
-import { template_renderer } from "../utils/template-renderer";
-import { get_cached_image, cache_image, HTTP_CACHE_TTL, SHORT_CACHE_TTL } from "../utils/cache-manager";
-import { is_authorized_origin, log_request, decode_html_entities } from "../utils/request-helpers";
+import { require_admin_auth } from "../middleware/admin-auth";
+import { consume_render_quota } from "../middleware/rate-limit";
+import { annotate_request_log } from "../middleware/request-logger";
+import { CacheEntry, content_etag, is_stale } from "../types/cache-store";
+import { image_format, og_params } from "../types/og-params";
+import {
+	BATCH_MAX_BODY_BYTES,
+	BATCH_MAX_ITEMS,
+	run_batch,
+} from "../utils/batch-generator";
+import {
+	batch_item,
+	manifest_error,
+	parse_manifest,
+} from "../utils/batch-manifest";
+import {
+	render_queue_error,
+	render_timeout_error,
+} from "../utils/browser-pool";
+import { circuit_open_error } from "../utils/circuit-breaker";
+import {
+	FALLBACK_CACHE_TTL,
+	get_fallback_image,
+} from "../utils/fallback-images";
+import { DEFAULT_FONT, get_font, list_fonts } from "../utils/font-registry";
+import {
+	coalesce_render,
+	is_render_in_flight,
+	shared_render,
+} from "../utils/render-coalescer";
+import { negotiate_format, OUTPUT_FORMATS } from "../utils/image-format";
+import { render_og_html, render_og_image } from "../utils/og-image-renderer";
+import {
+	apply_output_format,
+	collect_template_fields,
+	parse_colour_overrides,
+	parse_remote_images,
+	validate_og_body,
+	validate_og_params,
+} from "../utils/og-params-validator";
+import { log } from "../utils/logger";
+import {
+	cache_revalidations,
+	fallback_responses,
+	unauthorized_requests,
+} from "../utils/metrics";
+import { remote_image_error } from "../utils/remote-images";
+import { resolve_dimensions } from "../utils/size-presets";
+import {
+	format_text_fit,
+	get_text_fit_preview_script,
+} from "../utils/text-fit";
+import {
+	cache_image,
+	get_cache_key,
+	get_cached_image,
+	HTTP_CACHE_TTL,
+	HTTP_STALE_IF_ERROR,
+	HTTP_STALE_WHILE_REVALIDATE,
+	SHORT_CACHE_TTL,
+	STALE_HTTP_CACHE_TTL,
+} from "../utils/cache-manager";
+import {
+	DEFAULT_TEMPLATE,
+	get_template_definition,
+	list_templates,
+} from "../utils/template-registry";
+import { DEFAULT_THEME, get_theme, list_themes } from "../utils/theme-registry";
+import {
+	is_authorized_origin,
+	is_not_modified,
+	decode_html_entities,
+} from "../utils/request-helpers";
 
 const og_routes = new Hono();
 
-const template_renderer_instance = new template_renderer();
-const image_generator_instance = new image_generator();
+// Render and cache an image, sharing the render (and its stored entry) with
+// any concurrent request or revalidation for the same key
+function render_and_cache(
+	cache_key: string,
+	params: og_params,
+	authorized: boolean
+): Promise<shared_render & { coalesced: boolean }> {
+	return coalesce_render(cache_key, async () => {
+		const rendered = await render_og_image(params);
 
-function validate_og_params(query: Record<string, string | undefined>): {
-	valid: boolean;
-	params?: og_params;
-	error?: string;
-} {
-	const { title, author, website, theme } = query;
+		// Cache the generated image with authorization-based TTL
+		const entry = await cache_image(cache_key, rendered, authorized, params);
+
+		return { ...rendered, entry };
+	});
+}
+
+// Re-render a stale entry without holding up the response serving it
+function revalidate_in_background(cache_key: string, params: og_params): void {
+	// Only authorized entries are kept past their TTL
+	render_and_cache(cache_key, params, true)
+		.then(({ coalesced }) => {
+			cache_revalidations.inc({
+				result: coalesced ? "coalesced" : "rendered",
+			});
+		})
+		.catch((error) => {
+			cache_revalidations.inc({ result: "failed" });
+			log.warn("Stale cache entry revalidation failed", { cache_key, error });
+		});
+}
+
+// Serve validated params from cache, or render, cache and serve them
+async function respond_with_image(
+	c: Context,
+	params: og_params
+): Promise<Response> {
+	// Explicit format wins, otherwise negotiate from the Accept header
+	const negotiated = !params.format;
+	const format = params.format || negotiate_format(c.req.header("accept"));
+	apply_output_format(params, format);
+
+	if (negotiated) {
+		c.header("Vary", "Accept", { append: true });
+	}
+
+	// Generate cache key
+	const cache_key = get_cache_key(params);
+
+	// Check if request is from authorized origin
+	const authorized = is_authorized_origin(c);
+	if (!authorized) {
+		unauthorized_requests.inc();
+	}
+
+	annotate_request_log(c, {
+		cache_key,
+		template: params.template,
+		format,
+		authorized,
+	});
+
+	// Check hybrid cache (RAM -> Disk -> Generate)
+	const lookup_start = Date.now();
+	const cached_result = await get_cached_image(cache_key);
+	const cache_lookup_ms = Date.now() - lookup_start;
 
-	if (!title || typeof title !== "string" || title.trim().length === 0) {
-		return {
-			valid: false,
-			error: "Title is required and must be a non-empty string",
-		};
+	// Set cache headers based on authorization; CDNs may keep serving
+	// authorized images while they refetch, or while we're failing
+	const cache_ttl = authorized ? HTTP_CACHE_TTL : SHORT_CACHE_TTL;
+	c.header(
+		"Cache-Control",
+		authorized
+			? `public, max-age=${cache_ttl}, s-maxage=${cache_ttl}, ` +
+					`stale-while-revalidate=${HTTP_STALE_WHILE_REVALIDATE}, ` +
+					`stale-if-error=${HTTP_STALE_IF_ERROR}`
+			: `public, max-age=${cache_ttl}, s-maxage=${cache_ttl}`
+	);
+	c.header("X-Cache-Key", cache_key);
+	c.header("X-Authorized", authorized.toString());
+
+	// Past its TTL but within its grace window: serve it now, re-render after
+	if (cached_result && is_stale(cached_result)) {
+		c.header(
+			"Cache-Control",
+			`public, max-age=${STALE_HTTP_CACHE_TTL}, ` +
+				`s-maxage=${STALE_HTTP_CACHE_TTL}, ` +
+				`stale-if-error=${HTTP_STALE_IF_ERROR}`
+		);
+		c.header("X-Cache-Status", "STALE");
+		annotate_request_log(c, {
+			cache_status: "stale",
+			cache_source: cached_result.source,
+			cache_lookup_ms,
+		});
+		revalidate_in_background(cache_key, params);
+		return send_image(c, cached_result, format);
 	}
 
-	if (title.length > 200) {
-		return { valid: false, error: "Title must be 200 characters or less" };
+	if (cached_result) {
+		c.header("X-Cache-Status", `HIT-${cached_result.source.toUpperCase()}`);
+		annotate_request_log(c, {
+			cache_status: `hit-${cached_result.source}`,
+			cache_lookup_ms,
+		});
+		return send_image(c, cached_result, format);
 	}
 
-	if (author && (typeof author !== "string" || author.length > 100)) {
-		return {
-			valid: false,
-			error: "Author must be a string of 100 characters or less",
-		};
+	// Misses also count against the caller's render quota, unless they join a
+	// render another request already started
+	if (!is_render_in_flight(cache_key)) {
+		const rejection = await consume_render_quota(c);
+		if (rejection) {
+			return rejection;
+		}
 	}
 
-	if (website && (typeof website !== "string" || website.length > 100)) {
-		return {
-			valid: false,
-			error: "Website must be a string of 100 characters or less",
-		};
+	// Crawlers arriving together for the same key share one render
+	const render_start = Date.now();
+	let result: Awaited<ReturnType<typeof render_and_cache>>;
+	try {
+		result = await render_and_cache(cache_key, params, authorized);
+	} catch (error) {
+		const fallback = send_fallback(c, error, params);
+		if (fallback) {
+			return fallback;
+		}
+		throw error;
 	}
+	const { coalesced, entry, ...image } = result;
+	c.header("X-Cache-Status", coalesced ? "COALESCED" : "MISS");
 
-	if (theme && !["light", "dark"].includes(theme)) {
-		return { valid: false, error: 'Theme must be either "light" or "dark"' };
+	annotate_request_log(c, {
+		cache_status: coalesced ? "coalesced" : "miss",
+		cache_lookup_ms,
+		render_ms: Date.now() - render_start,
+	});
+	// Only a render that wasn't cached (e.g. CLI output) lacks a stored entry
+	return send_image(
+		c,
+		entry || {
+			...image,
+			etag: content_etag(image.buffer),
+			created_at: Date.now(),
+		},
+		format
+	);
+}
+
+// Send the image, or 304 Not Modified when the client's copy is current
+function send_image(
+	c: Context,
+	image: Pick<CacheEntry, "buffer" | "etag" | "created_at" | "text_fit">,
+	format: image_format
+): Response {
+	const etag = `"${image.etag}"`;
+	c.header("ETag", etag);
+	c.header("Last-Modified", new Date(image.created_at).toUTCString());
+	if (image.text_fit) {
+		c.header("X-Title-Fit", format_text_fit(image.text_fit));
+	}
+	// Also on 304s: the Node adapter labels responses without one text/plain,
+	// and caches refresh their stored headers from a 304
+	c.header("Content-Type", OUTPUT_FORMATS[format].content_type);
+
+	if (is_not_modified(c, etag, image.created_at)) {
+		annotate_request_log(c, { not_modified: true });
+		return c.body(null, 304);
+	}
+
+	c.header("Content-Length", image.buffer.length.toString());
+	return c.body(image.buffer);
+}
+
+// Why a render failed, for fallbacks; null for errors a fallback shouldn't hide
+function fallback_reason(error: unknown): string | null {
+	if (error instanceof render_timeout_error) {
+		return "timeout";
+	}
+	if (error instanceof circuit_open_error) {
+		return "circuit_open";
+	}
+	if (
+		error instanceof render_queue_error ||
+		error instanceof remote_image_error
+	) {
+		return null;
+	}
+	return "error";
+}
+
+// Serve the pre-rendered image for this template/theme instead of an error,
+// since crawlers would cache the broken preview. Null when there's none
+function send_fallback(
+	c: Context,
+	error: unknown,
+	params: og_params
+): Response | null {
+	const reason = fallback_reason(error);
+	const image = reason
+		? get_fallback_image(params.template || DEFAULT_TEMPLATE, params.theme)
+		: undefined;
+	if (!reason || !image) {
+		return null;
+	}
+
+	fallback_responses.inc({ reason });
+	annotate_request_log(c, {
+		error,
+		fallback: image.name,
+		fallback_reason: reason,
+	});
+
+	c.header(
+		"Cache-Control",
+		`public, max-age=${FALLBACK_CACHE_TTL}, s-maxage=${FALLBACK_CACHE_TTL}`
+	);
+	c.header("X-Cache-Status", "FALLBACK");
+	c.header("X-Fallback", reason);
+	c.header("Content-Type", OUTPUT_FORMATS[image.format].content_type);
+	c.header("Content-Length", image.buffer.length.toString());
+	return c.body(image.buffer);
+}
+
+function render_error_response(c: Context, error: unknown): Response {
+	// Replaces the image's Cache-Control so CDNs and crawlers don't keep the error
+	c.header("Cache-Control", "no-store");
+
+	if (error instanceof circuit_open_error) {
+		// Rendering keeps failing and there's no fallback image to serve
+		annotate_request_log(c, { error });
+		c.header(
+			"Retry-After",
+			String(Math.max(1, Math.ceil(error.retry_after_ms / 1000)))
+		);
+		return c.json({ error: "Image rendering is temporarily unavailable" }, 503);
+	}
+
+	if (error instanceof render_timeout_error) {
+		annotate_request_log(c, { error });
+		return c.json({ error: "Image rendering timed out" }, 504);
+	}
+
+	if (error instanceof render_queue_error) {
+		// Render pool is saturated - ask the client to come back later
+		annotate_request_log(c, { error });
+		c.header("Retry-After", "5");
+		return c.json(
+			{ error: "Service busy, please retry", message: error.message },
+			503
+		);
+	}
+
+	if (error instanceof remote_image_error) {
+		// An avatar/logo/background could not be fetched - don't render without it
+		annotate_request_log(c, { error, remote_image_url: error.url });
+		return c.json(
+			{ error: "Could not fetch remote image", message: error.message },
+			502
+		);
 	}
 
-	return {
-		valid: true,
-		params: {
-			title: title.trim(),
-			author: author?.trim() || "Anonymous",
-			website: website?.trim() || "example.com",
-			theme: (theme as "light" | "dark") || "light",
+	annotate_request_log(c, { error });
+	return c.json(
+		{
+			error: "Internal server error while generating image",
+			message:
+				process.env.NODE_ENV === "development"
+					? (error as Error).message
+					: undefined,
 		},
-	};
+		500
+	);
 }
 
 // Main OG image generation route
 og_routes.get("/", async (c: Context) => {
-	const start_time = Date.now();
 	try {
 		// Get and decode query parameters (handle HTML entities from meta tags)
 		const raw_query = c.req.query();
@@ -70,98 +363,90 @@ og_routes.get("/", async (c: Context) => {
 		// Validate parameters
 		const validation = validate_og_params(query);
 		if (!validation.valid) {
-			return c.json({ error: validation.error }, 400);
+			annotate_request_log(c, { validation_errors: validation.errors });
+			return c.json(
+				{ error: validation.error, errors: validation.errors },
+				400
+			);
 		}
 
-		const params = validation.params!;
-
-		// Generate cache key
-		const cache_key = `${params.title}-${params.author}-${params.website}-${params.theme}`;
-
-		// Check if request is from authorized origin
-		const authorized = is_authorized_origin(c);
+		return await respond_with_image(c, validation.params!);
+	} catch (error) {
+		return render_error_response(c, error);
+	}
+});
 
-		// Check hybrid cache (RAM -> Disk -> Generate)
-		const cached_result = await get_cached_image(cache_key);
+// JSON API for build pipelines - same params as GET, shares its cache
+// (body size is capped by og_body_limit in server.ts)
+og_routes.post("/", async (c: Context) => {
+	try {
+		let body: unknown;
+		try {
+			body = await c.req.json();
+		} catch {
+			return c.json({ error: "Body must be valid JSON" }, 400);
+		}
 
-		if (cached_result) {
-			// Set cache headers based on authorization
-			const cache_ttl = authorized ? HTTP_CACHE_TTL : SHORT_CACHE_TTL;
-			c.header(
-				"Cache-Control",
-				`public, max-age=${cache_ttl}, s-maxage=${cache_ttl}`
-			);
-			c.header("Content-Type", "image/jpeg");
-			c.header("Content-Length", cached_result.buffer.length.toString());
-			c.header("X-Cache-Key", cache_key);
-			c.header("X-Cache-Status", `HIT-${cached_result.source.toUpperCase()}`);
-			c.header("X-Authorized", authorized.toString());
-			c.header("ETag", `"${cache_key.replace(/[^a-zA-Z0-9]/g, "")}"`);
-
-			const response_time = Date.now() - start_time;
-			log_request(
-				c,
-				`✅ Cache hit (${cached_result.source})`,
-				response_time,
-				cache_key,
-				authorized
+		const validation = validate_og_body(body);
+		if (!validation.valid) {
+			annotate_request_log(c, { validation_errors: validation.errors });
+			return c.json(
+				{ error: validation.error, errors: validation.errors },
+				400
 			);
-			return c.body(cached_result.buffer);
 		}
 
-		// Set cache headers based on authorization
-		const cache_ttl = authorized ? HTTP_CACHE_TTL : SHORT_CACHE_TTL;
-		c.header(
-			"Cache-Control",
-			`public, max-age=${cache_ttl}, s-maxage=${cache_ttl}`
-		);
-		c.header("Content-Type", "image/jpeg");
-		c.header("X-Cache-Key", cache_key);
-		c.header("X-Cache-Status", "MISS");
-		c.header("X-Authorized", authorized.toString());
-		c.header("ETag", `"${cache_key.replace(/[^a-zA-Z0-9]/g, "")}"`);
-		c.header("Last-Modified", new Date().toUTCString());
-
-		// Render HTML template
-		const html_content = template_renderer_instance.render_template("default", {
-			title: params.title,
-			author: params.author || "Anonymous",
-			website: params.website || "example.com",
-			theme: params.theme || "light",
-		});
+		return await respond_with_image(c, validation.params!);
+	} catch (error) {
+		return render_error_response(c, error);
+	}
+});
 
-		// Generate image
-		const image_buffer = await image_generator_instance.generate_image(
-			html_content,
-			{
-				width: 1200,
-				height: 630,
-				device_scale_factor: 1,
-				format: "jpeg",
-				quality: 85,
+// Warm the cache from a JSON or CSV manifest, e.g. from a site build (admin only)
+og_routes.post(
+	"/batch",
+	require_admin_auth,
+	bodyLimit({
+		maxSize: BATCH_MAX_BODY_BYTES,
+		onError: (c) =>
+			c.json(
+				{ error: `Manifest must be ${BATCH_MAX_BODY_BYTES} bytes or less` },
+				413
+			),
+	}),
+	async (c: Context) => {
+		const content_type = c.req.header("content-type") || "";
+
+		let items: batch_item[];
+		try {
+			items = parse_manifest(
+				await c.req.text(),
+				content_type.includes("csv") ? "csv" : "json"
+			);
+		} catch (error) {
+			if (error instanceof manifest_error) {
+				return c.json({ error: error.message }, 400);
 			}
-		);
+			throw error;
+		}
 
-		// Cache the generated image with authorization-based TTL
-		await cache_image(cache_key, image_buffer, authorized);
+		if (items.length > BATCH_MAX_ITEMS) {
+			return c.json(
+				{ error: `Manifest must have ${BATCH_MAX_ITEMS} items or less` },
+				400
+			);
+		}
 
-		const response_time = Date.now() - start_time;
-		log_request(c, `🔄 Generated fresh`, response_time, cache_key, authorized);
-		return c.body(image_buffer);
-	} catch (error) {
-		console.error("Error generating OG image:", error);
-		return c.json(
-			{
-				error: "Internal server error while generating image",
-				message:
-					process.env.NODE_ENV === "development"
-						? (error as Error).message
-						: undefined,
-			},
-			500
-		);
+		const report = await run_batch(items, { warm_cache: true });
+		annotate_request_log(c, {
+			batch_total: report.total,
+			batch_generated: report.generated,
+			batch_cached: report.cached,
+			batch_failed: report.failed,
+		});
+		return c.json(report);
 	}
-});
+);
 
 // Preview endpoint for testing the design
 og_routes.get("/preview", async (c: Context) => {
@@ -170,22 +455,104 @@ og_routes.get("/preview", async (c: Context) => {
 		const title = query.title || "";
 		const author = query.author || "";
 		const website = query.website || "";
-		const theme = (query.theme as "light" | "dark") || "light";
+		const theme = query.theme || DEFAULT_THEME;
+		if (!get_theme(theme)) {
+			return c.json({ error: `Unknown theme "${theme}"` }, 400);
+		}
+
+		const { colours, errors: colour_errors } = parse_colour_overrides(query);
+		if (Object.keys(colour_errors).length) {
+			return c.json({ error: Object.values(colour_errors)[0] }, 400);
+		}
+		const template = query.template || DEFAULT_TEMPLATE;
+
+		const definition = get_template_definition(template);
+		if (!definition) {
+			return c.json({ error: `Unknown template "${template}"` }, 400);
+		}
+
+		const extra = collect_template_fields(definition, query);
+		if (Object.keys(extra.errors).length) {
+			return c.json({ error: Object.values(extra.errors)[0] }, 400);
+		}
+
+		const { dimensions, error: dimensions_error } = resolve_dimensions(query);
+		if (!dimensions) {
+			return c.json({ error: dimensions_error }, 400);
+		}
+
+		const font = query.font || DEFAULT_FONT;
+		if (!get_font(font)) {
+			return c.json({ error: `Unknown font "${font}"` }, 400);
+		}
+
+		const { images, errors: images_errors } = parse_remote_images(
+			definition,
+			query
+		);
+		if (Object.keys(images_errors).length) {
+			return c.json({ error: Object.values(images_errors)[0] }, 400);
+		}
 
 		// Render HTML template for preview
-		const html_content = template_renderer_instance.render_template("default", {
+		let html_content = await render_og_html({
 			title,
 			author,
 			website,
 			theme,
+			colours,
+			template,
+			font,
+			...dimensions,
+			images,
+			fields: extra.fields,
 		});
 
+		// The browser viewing the preview auto-fits the title like the renderer
+		if (definition.text_fit) {
+			html_content = html_content.replace(
+				"</body>",
+				`${get_text_fit_preview_script(definition.text_fit)}</body>`
+			);
+		}
+
 		c.header("Content-Type", "text/html; charset=utf-8");
 		return c.html(html_content);
 	} catch (error) {
-		console.error("Error generating preview:", error);
+		annotate_request_log(c, { error });
+		if (error instanceof remote_image_error) {
+			return c.json(
+				{ error: "Could not fetch remote image", message: error.message },
+				502
+			);
+		}
 		return c.json({ error: "Could not generate preview" }, 500);
 	}
 });
 
+// List available templates and the fields each one accepts
+og_routes.get("/templates", (c: Context) => {
+	return c.json({ templates: list_templates() });
+});
+
+// List themes usable with ?theme=
+og_routes.get("/themes", (c: Context) => {
+	return c.json({
+		default: DEFAULT_THEME,
+		themes: list_themes().map((name) => ({ name, ...get_theme(name) })),
+	});
+});
+
+// List installed fonts usable with ?font=
+og_routes.get("/fonts", (c: Context) => {
+	return c.json({
+		default: DEFAULT_FONT,
+		fonts: list_fonts().map(({ id, family, faces }) => ({
+			id,
+			family,
+			weights: Array.from(new Set(faces.map((face) => face.weight || 400))),
+		})),
+	});
+});
+
 export { og_routes };
\ No newline at end of file
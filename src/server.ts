@@ -1,23 +1,46 @@
 import { serve } from "@hono/node-server";
 import { Context, Hono } from "hono";
 import { cors } from "hono/cors";
-import { logger } from "hono/logger";
+import { HTTPException } from "hono/http-exception";
 import { secureHeaders } from "hono/secure-headers";
 import { promises as fs } from "node:fs";
 import { join } from "node:path";
 
 // Import our modules
 import {
-	fallback_rate_limit_middleware,
-	ratelimit,
+	rate_limit_middleware,
 	setup_rate_limiting,
-	upstash_rate_limit_middleware,
 } from "./middleware/rate-limit";
+import {
+	annotate_request_log,
+	request_logger_middleware,
+} from "./middleware/request-logger";
+import { signed_url_middleware } from "./middleware/signed-url";
 import { cache_routes } from "./routes/cache-routes";
+import { key_routes } from "./routes/key-routes";
 import { og_routes } from "./routes/og-routes";
-import { MAX_RAM_CACHE_SIZE, ram_cache } from "./utils/cache-manager";
-import { image_generator } from "./utils/image-generator";
-import { pre_warm_cache } from "./utils/pre-warm-cache";
+import { og_body_limit } from "./utils/og-request-body";
+import { shared_browser_pool } from "./utils/browser-pool";
+import {
+	cache_store,
+	flush_cache,
+	ram_store,
+	setup_cache,
+} from "./utils/cache-manager";
+import { image_generator, render_circuit } from "./utils/image-generator";
+import { log } from "./utils/logger";
+import {
+	cache_bytes,
+	cache_entries,
+	http_requests,
+	register_collector,
+	render_circuit_state,
+	render_metrics,
+	renders_in_flight,
+} from "./utils/metrics";
+import { schedule_pre_warm } from "./utils/pre-warm-cache";
+import { get_remote_image_stats } from "./utils/remote-images";
+import { get_coalescing_stats } from "./utils/render-coalescer";
 
 const app = new Hono();
 const image_generator_instance = new image_generator();
@@ -25,27 +48,53 @@ const image_generator_instance = new image_generator();
 // Setup graceful shutdown
 image_generator_instance.setup_shutdown_handlers();
 
-// Initialize rate limiting
+// Initialize rate limiting and the cache tiers
 setup_rate_limiting();
+setup_cache();
+// Save the debounced disk index on shutdown, or the next startup deletes
+// images written just before it as orphans
+image_generator_instance.on_shutdown(flush_cache);
 
 // Middleware
-app.use("*", logger());
+app.use("*", request_logger_middleware);
 app.use("*", secureHeaders());
 app.use(
 	"*",
 	cors({
 		origin: "*", // Allow all origins - access control handled via caching strategy
-		allowMethods: ["GET"],
-		allowHeaders: ["Content-Type"],
+		allowMethods: ["GET", "POST"],
+		allowHeaders: ["Content-Type", "X-Request-Id", "X-API-Key"],
+		exposeHeaders: [
+			"X-Request-Id",
+			"X-RateLimit-Limit",
+			"X-RateLimit-Remaining",
+			"X-RateLimit-Reset",
+			"X-RateLimit-Render-Limit",
+			"X-RateLimit-Render-Remaining",
+			"X-RateLimit-Render-Reset",
+			"Retry-After",
+		],
 	})
 );
 
-// Apply rate limiting middleware to OG routes
-if (ratelimit) {
-	app.use("/og", upstash_rate_limit_middleware);
-} else {
-	app.use("/og", fallback_rate_limit_middleware);
-}
+// Count image requests by outcome (registered first so 429s are included)
+app.use("/og", async (c: Context, next) => {
+	await next();
+	// e.g. HIT-RAM -> ram, MISS -> miss; none for errors and rejections
+	const cache_status = c.res.headers.get("X-Cache-Status");
+	http_requests.inc({
+		method: c.req.method,
+		status: String(c.res.status),
+		cache: cache_status?.replace(/^HIT-/, "").toLowerCase() || "none",
+	});
+});
+
+// Per API key (or client IP) limits on OG routes; renders are counted in og_routes
+app.use("/og", rate_limit_middleware);
+
+// Cap POST /og bodies, then verify signed URLs (no-op unless OG_SIGNATURE_MODE is set)
+app.use("/og", og_body_limit);
+app.use("/og", signed_url_middleware);
 
 // Routes
 app.get("/", async (c: Context) => {
@@ -67,27 +116,83 @@ app.get("/", async (c: Context) => {
 		c.header("Content-Type", "text/html; charset=utf-8");
 		return c.html(html);
 	} catch (error) {
-		console.error("Error loading index template:", error);
+		annotate_request_log(c, { error });
 		return c.json({ error: "Could not load page" }, 500);
 	}
 });
 
 // Health check endpoint
-app.get("/health", (c: Context) => {
+app.get("/health", async (c: Context) => {
+	const ram_stats = await ram_store.stats();
+
 	return c.json({
 		status: "healthy",
 		timestamp: new Date().toISOString(),
 		service: "og-image-generator",
 		cache: {
-			ram_entries: ram_cache.size,
-			max_ram_size: MAX_RAM_CACHE_SIZE,
+			ram_entries: ram_stats.entries,
+			max_ram_size: ram_stats.max_entries,
+			ram_bytes: ram_stats.bytes,
+			max_ram_bytes: ram_stats.max_bytes,
+			ram_hits: ram_stats.hits,
+			ram_misses: ram_stats.misses,
+			ram_evictions: ram_stats.evictions,
+			tiers: cache_store.tiers.map((tier) => tier.name),
 		},
+		renderer: {
+			...shared_browser_pool.get_stats(),
+			coalescing: get_coalescing_stats(),
+			circuit: render_circuit.get_stats(),
+		},
+		remote_images: get_remote_image_stats(),
 	});
 });
 
+// Gauges sampled when Prometheus scrapes
+register_collector(async () => {
+	cache_entries.reset();
+	cache_bytes.reset();
+	await Promise.all(
+		cache_store.tiers.map(async (tier) => {
+			try {
+				const stats = await tier.stats();
+				cache_entries.set({ tier: tier.name }, stats.entries);
+				cache_bytes.set({ tier: tier.name }, stats.bytes);
+			} catch (error) {
+				log.error("Cache tier stats failed", { tier: tier.name, error });
+			}
+		})
+	);
+});
+register_collector(() => {
+	const { active_renders, queued_renders } = shared_browser_pool.get_stats();
+	renders_in_flight.set({ state: "active" }, active_renders);
+	renders_in_flight.set({ state: "queued" }, queued_renders);
+
+	const { state } = render_circuit.get_stats();
+	for (const each of ["closed", "open", "half_open"]) {
+		render_circuit_state.set({ state: each }, each === state ? 1 : 0);
+	}
+});
+
+// Prometheus metrics
+app.get("/metrics", async (c: Context) => {
+	c.header("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+	return c.body(await render_metrics());
+});
+
+// Unhandled errors are logged on the request's log line, with the stack
+app.onError((error, c: Context) => {
+	if (error instanceof HTTPException) {
+		return error.getResponse();
+	}
+	return c.json({ error: "Internal server error" }, 500);
+});
+
 // Mount route modules
 app.route("/og", og_routes);
 app.route("/cache", cache_routes);
+app.route("/keys", key_routes);
 
 // Start server
 const port = Number(process.env.PORT) || 3000;
@@ -97,12 +202,13 @@ serve({
 	port: port,
 });
 
-console.log(`🚀 OG Image Generator server running on port ${port}`);
+log.info(`OG Image Generator server running on port ${port}`, {
+	port,
+	environment: process.env.NODE_ENV || "development",
+	health_check: `http://localhost:${port}/health`,
+	metrics: `http://localhost:${port}/metrics`,
+	example: `http://localhost:${port}/og?title=Hello%20World`,
+});
 
-// Pre-warm cache after startup
-setTimeout(pre_warm_cache, 1000);
-console.log(`📝 Environment: ${process.env.NODE_ENV || "development"}`);
-console.log(`🔗 Health check: http://localhost:${port}/health`);
-console.log(
-	`🖼️  Generate image: http://localhost:${port}/og?title=Hello%20World`
-);
+// Pre-warm cache after startup and on the configured schedule
+schedule_pre_warm();
@@ -0,0 +1,72 @@
+import { createHash } from "node:crypto";
+import { image_format, og_params, text_fit_result } from "./og-params";
+
+export interface CacheEntry {
+	buffer: Buffer;
+	format: image_format;
+	created_at: number; // Epoch milliseconds, sent as Last-Modified
+	ttl: number; // Time to live in seconds
+	stale_ttl?: number; // Seconds past ttl it may still be served while re-rendering
+	etag: string; // Hash of the image bytes, sent as the ETag
+	params?: og_params; // What produced the image, for inspection
+	text_fit?: text_fit_result; // Auto-fit title size, for the X-Title-Fit header
+}
+
+// An entry's metadata in one tier, without reading the image itself
+export interface CacheEntryInfo {
+	tier: string;
+	format: image_format;
+	bytes: number;
+	created_at: number;
+	ttl: number;
+	stale_ttl?: number;
+	hits?: number; // Times served from this tier (not tracked by Redis)
+	etag: string;
+	params?: og_params;
+}
+
+export interface CacheGetOptions {
+	peek?: boolean; // Admin reads: don't count a hit, refresh recency or promote
+}
+
+export interface CacheStats {
+	name: string;
+	entries: number;
+	bytes: number;
+	max_entries?: number;
+	max_bytes?: number;
+	hits?: number;
+	misses?: number;
+	evictions?: number;
+}
+
+// A single cache tier (RAM, filesystem, Redis ...) or a composition of tiers
+export interface CacheStore {
+	readonly name: string;
+	get(key: string, options?: CacheGetOptions): Promise<CacheEntry | null>;
+	describe(key: string): Promise<CacheEntryInfo | null>;
+	set(key: string, entry: CacheEntry): Promise<void>;
+	delete(key: string): Promise<boolean>;
+	list(): Promise<string[]>;
+	clear(): Promise<number>;
+	stats(): Promise<CacheStats>;
+}
+
+// Strong ETag value (without quotes) for an image - equal bytes, equal ETag
+export function content_etag(buffer: Buffer): string {
+	return createHash("sha256").update(buffer).digest("hex").slice(0, 32);
+}
+
+type entry_lifetime = Pick<CacheEntry, "created_at" | "ttl" | "stale_ttl">;
+
+// Past its TTL: still servable, but should be re-rendered
+export function is_stale(entry: entry_lifetime, now: number = Date.now()) {
+	return now - entry.created_at > entry.ttl * 1000;
+}
+
+// Past its TTL and grace window: no longer servable at all
+export function is_expired(entry: entry_lifetime, now: number = Date.now()) {
+	return (
+		now - entry.created_at > (entry.ttl + (entry.stale_ttl || 0)) * 1000
+	);
+}
@@ -2,9 +2,43 @@ export interface og_params {
 	title: string;
 	author?: string;
 	website?: string;
-	theme?: "light" | "dark";
+	theme?: string; // Built-in light/dark or a named theme from config/themes.json
+	colours?: colour_overrides;
+	template?: string;
+	format?: image_format;
+	quality?: number;
+	width?: number;
+	height?: number;
+	scale?: number;
+	font?: string;
+	images?: remote_image_urls;
+	// Extra fields declared by the selected template (e.g. date, tags)
+	fields?: Record<string, string | string[]>;
+}
+
+// Per-request brand colours, normalised to #rrggbb
+export interface colour_overrides {
+	background?: string;
+	text?: string;
+	accent?: string;
 }
 
+// Allowlisted image URLs, fetched server-side and inlined as data URIs
+export interface remote_image_urls {
+	avatar?: string;
+	logo?: string;
+	background?: string;
+}
+
+export type template_value =
+	| string
+	| number
+	| boolean
+	| undefined
+	| null
+	| template_value[]
+	| { [key: string]: template_value };
+
 export interface template_data {
 	title: string;
 	author: string;
@@ -15,10 +49,33 @@ export interface template_data {
 	accent_colour: string;
 }
 
+export type image_format = "png" | "jpeg" | "webp" | "avif";
+
 export interface image_generation_options {
 	width: number;
 	height: number;
 	device_scale_factor: number;
-	format: "png" | "jpeg";
+	format: image_format;
 	quality?: number;
+	text_fit?: text_fit_bounds;
+}
+
+// Template-declared auto-fit for one element (usually the title)
+export interface text_fit_bounds {
+	selector: string;
+	min_size: number; // px
+	max_size: number; // px
+	max_lines: number; // Clamped with an ellipsis beyond this at min_size
+}
+
+// What auto-fit chose, reported in the X-Title-Fit header
+export interface text_fit_result {
+	font_size: number;
+	lines: number;
+	clamped: boolean;
+}
+
+export interface rendered_image {
+	buffer: Buffer;
+	text_fit?: text_fit_result;
 }
@@ -0,0 +1,121 @@
+import { createHash } from "node:crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { log } from "./logger";
+
+export const API_KEYS_FILE =
+	process.env.API_KEYS_FILE ||
+	path.join(process.cwd(), "config", "api-keys.json");
+export const RATE_LIMIT_WINDOW_MS =
+	Number(process.env.RATE_LIMIT_WINDOW_MS) || 60 * 1000; // 1 minute
+export const RATE_LIMIT_MAX_REQUESTS =
+	Number(process.env.RATE_LIMIT_MAX_REQUESTS) || 60; // Per window per IP
+export const RATE_LIMIT_MAX_RENDERS =
+	Number(process.env.RATE_LIMIT_MAX_RENDERS) || RATE_LIMIT_MAX_REQUESTS; // Cache misses per window per IP
+
+// Requests without an API key are limited per client IP under this name
+export const ANONYMOUS_TIER = "anonymous";
+
+const KEY_ID_PATTERN = /^[a-z0-9][a-z0-9\-_]*$/;
+
+// One entry of config/api-keys.json "tiers"
+export interface rate_limit_tier {
+	name: string;
+	window_ms: number;
+	requests: number; // Every /og request in the window, cache hits included
+	renders: number; // Cache misses in the window, which each cost a render
+	monthly_requests?: number; // Per calendar month (UTC), unlimited when unset
+	monthly_renders?: number;
+}
+
+export interface api_key {
+	id: string; // Shown in logs, usage reports and rate limit buckets
+	tier: rate_limit_tier;
+}
+
+interface api_keys_config {
+	tiers?: Record<string, Partial<rate_limit_tier>>;
+	keys?: { id?: unknown; key?: unknown; tier?: unknown }[];
+}
+
+let tiers: Map<string, rate_limit_tier> | null = null;
+// Keyed by the SHA-256 of the key, so the keys themselves aren't kept around
+let keys: Map<string, api_key> | null = null;
+
+function hash_key(key: string): string {
+	return createHash("sha256").update(key).digest("hex");
+}
+
+function non_negative_int(value: unknown): number | undefined {
+	return Number.isInteger(value) && (value as number) >= 0
+		? (value as number)
+		: undefined;
+}
+
+function parse_tier(
+	name: string,
+	tier: Partial<rate_limit_tier>
+): rate_limit_tier {
+	return {
+		name,
+		window_ms: non_negative_int(tier.window_ms) || RATE_LIMIT_WINDOW_MS,
+		requests: non_negative_int(tier.requests) ?? RATE_LIMIT_MAX_REQUESTS,
+		renders: non_negative_int(tier.renders) ?? RATE_LIMIT_MAX_RENDERS,
+		monthly_requests: non_negative_int(tier.monthly_requests),
+		monthly_renders: non_negative_int(tier.monthly_renders),
+	};
+}
+
+export function load_api_keys(): Map<string, api_key> {
+	let config: api_keys_config = {};
+	try {
+		config = JSON.parse(fs.readFileSync(API_KEYS_FILE, "utf-8"));
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+			log.error("Could not load API keys file", { error });
+		}
+	}
+
+	// The anonymous tier comes from RATE_LIMIT_* unless the file overrides it
+	tiers = new Map([[ANONYMOUS_TIER, parse_tier(ANONYMOUS_TIER, {})]]);
+	for (const [name, tier] of Object.entries(config.tiers || {})) {
+		tiers.set(name, parse_tier(name, tier || {}));
+	}
+
+	keys = new Map();
+	for (const entry of Array.isArray(config.keys) ? config.keys : []) {
+		const tier = typeof entry.tier === "string" && tiers.get(entry.tier);
+		if (
+			typeof entry.id !== "string" ||
+			!KEY_ID_PATTERN.test(entry.id) ||
+			typeof entry.key !== "string" ||
+			entry.key.length < 16 ||
+			!tier
+		) {
+			log.warn(
+				"API key needs a lowercase id, a key of 16+ characters and a known tier, skipping",
+				{ key_id: entry.id }
+			);
+			continue;
+		}
+		keys.set(hash_key(entry.key), { id: entry.id, tier });
+	}
+
+	return keys;
+}
+
+// The key's owner and limits, or undefined for an unknown key
+export function find_api_key(key: string): api_key | undefined {
+	return (keys || load_api_keys()).get(hash_key(key));
+}
+
+export function list_api_keys(): api_key[] {
+	return Array.from((keys || load_api_keys()).values());
+}
+
+export function get_anonymous_tier(): rate_limit_tier {
+	if (!tiers) {
+		load_api_keys();
+	}
+	return tiers!.get(ANONYMOUS_TIER)!;
+}
@@ -0,0 +1,197 @@
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { is_stale } from "../types/cache-store";
+import { BROWSER_POOL_SIZE } from "./browser-pool";
+import { cache_image, get_cache_key, get_cached_image } from "./cache-manager";
+import { batch_item } from "./batch-manifest";
+import { DEFAULT_FORMAT, OUTPUT_FORMATS } from "./image-format";
+import { render_og_image } from "./og-image-renderer";
+import { apply_output_format, validate_og_body } from "./og-params-validator";
+import { coalesce_render } from "./render-coalescer";
+
+// Batch configuration
+export const BATCH_MAX_ITEMS = Number(process.env.BATCH_MAX_ITEMS) || 500; // Per POST /og/batch request
+export const BATCH_MAX_BODY_BYTES = 1024 * 1024; // 1MB manifest per request
+export const BATCH_CONCURRENCY =
+	Number(process.env.BATCH_CONCURRENCY) || BROWSER_POOL_SIZE; // Items processed at once
+
+export interface batch_options {
+	concurrency?: number;
+	output_dir?: string; // Write image files here
+	warm_cache?: boolean; // Serve from and store into the image cache
+}
+
+export interface batch_result {
+	index: number;
+	status: "generated" | "cached" | "failed";
+	cache_key?: string;
+	file?: string;
+	bytes?: number;
+	duration_ms: number;
+	error?: string;
+	errors?: Record<string, string>;
+}
+
+export interface batch_report {
+	total: number;
+	generated: number;
+	cached: number;
+	failed: number;
+	duration_ms: number;
+	results: batch_result[];
+}
+
+// Keep file names inside the output directory
+function safe_file_name(name: string): string {
+	return name
+		.replace(/\.(jpe?g|png|webp|avif)$/i, "")
+		.replace(/[^a-zA-Z0-9._-]+/g, "-")
+		.replace(/^[.-]+/, "")
+		.slice(0, 200);
+}
+
+// Output files claimed so far in a batch, with the item and image claiming them
+type claimed_files = Map<string, { index: number; cache_key: string }>;
+
+async function process_item(
+	item: batch_item,
+	index: number,
+	options: batch_options,
+	claimed: claimed_files
+): Promise<batch_result> {
+	const start_time = Date.now();
+	const failed = (error: string, errors?: Record<string, string>) => ({
+		index,
+		status: "failed" as const,
+		duration_ms: Date.now() - start_time,
+		error,
+		errors,
+	});
+
+	if (item.error) {
+		return failed(item.error);
+	}
+
+	const validation = validate_og_body(item.body);
+	if (!validation.valid) {
+		return failed(validation.error || "Invalid params", validation.errors);
+	}
+
+	const params = validation.params!;
+	const format = params.format || DEFAULT_FORMAT;
+	apply_output_format(params, format);
+	const cache_key = get_cache_key(params);
+
+	// Claimed before rendering, so the earliest item keeps a contested name.
+	// Identical images (e.g. repeated rows without a filename) may share one
+	let file: string | undefined;
+	if (options.output_dir) {
+		const name = safe_file_name(item.filename || "") || cache_key;
+		file = join(
+			options.output_dir,
+			`${name}.${OUTPUT_FORMATS[format].extension}`
+		);
+		const owner = claimed.get(file);
+		if (owner && owner.cache_key !== cache_key) {
+			return {
+				...failed(
+					`File name ${name} is already used by item #${owner.index}`
+				),
+				cache_key,
+			};
+		}
+		claimed.set(file, owner || { index, cache_key });
+	}
+
+	try {
+		let status: batch_result["status"] = "generated";
+		let buffer: Buffer | undefined;
+
+		if (options.warm_cache) {
+			// Stale entries are re-rendered, that's what warming is for
+			const cached = await get_cached_image(cache_key);
+			buffer = cached && !is_stale(cached) ? cached.buffer : undefined;
+			status = buffer ? "cached" : "generated";
+		}
+
+		if (!buffer) {
+			// Duplicate manifest entries (or live traffic) share one render
+			buffer = (
+				await coalesce_render(cache_key, async () => {
+					const rendered = await render_og_image(params);
+					if (!options.warm_cache) {
+						return rendered;
+					}
+					// Live requests sharing this render send the stored entry
+					const entry = await cache_image(
+						cache_key,
+						rendered,
+						true,
+						params
+					);
+					return { ...rendered, entry };
+				})
+			).buffer;
+		}
+
+		if (file) {
+			await fs.writeFile(file, buffer);
+		}
+
+		return {
+			index,
+			status,
+			cache_key,
+			file,
+			bytes: buffer.length,
+			duration_ms: Date.now() - start_time,
+		};
+	} catch (error) {
+		return { ...failed((error as Error).message), cache_key };
+	}
+}
+
+// Generate every manifest item, a bounded number at a time. Failures are
+// reported per item rather than stopping the batch
+export async function run_batch(
+	items: batch_item[],
+	options: batch_options = {}
+): Promise<batch_report> {
+	const start_time = Date.now();
+	const concurrency = Math.max(1, options.concurrency || BATCH_CONCURRENCY);
+	const results: batch_result[] = new Array(items.length);
+
+	if (options.output_dir) {
+		await fs.mkdir(options.output_dir, { recursive: true });
+	}
+
+	// Workers pull the next item until the manifest is exhausted
+	let next = 0;
+	const claimed: claimed_files = new Map();
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await process_item(
+				items[index],
+				index,
+				options,
+				claimed
+			);
+		}
+	};
+	await Promise.all(
+		Array.from({ length: Math.min(concurrency, items.length) }, worker)
+	);
+
+	const count = (status: batch_result["status"]) =>
+		results.filter((result) => result.status === status).length;
+
+	return {
+		total: items.length,
+		generated: count("generated"),
+		cached: count("cached"),
+		failed: count("failed"),
+		duration_ms: Date.now() - start_time,
+		results,
+	};
+}
@@ -0,0 +1,173 @@
+// A manifest lists the images to generate, one POST /og style body each, e.g.
+// JSON: [{"title": "Hello", "filename": "hello"}, ...] or {"items": [...]}
+// CSV:  title,author,tags,filename (header row, one image per row)
+export interface batch_item {
+	body: Record<string, unknown>;
+	filename?: string; // Output file name, without extension
+	error?: string; // Set when the entry isn't an object at all
+}
+
+export type manifest_type = "json" | "csv";
+
+// Thrown when a manifest can't be parsed at all (bad items are reported per item)
+export class manifest_error extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "manifest_error";
+	}
+}
+
+// CSV columns that belong in a nested body object rather than at the top level
+const CSV_GROUP_COLUMNS: Record<string, [string, string]> = {
+	bg: ["colours", "background"],
+	text: ["colours", "text"],
+	accent: ["colours", "accent"],
+	avatar: ["images", "avatar"],
+	logo: ["images", "logo"],
+	background: ["images", "background"],
+};
+
+// Columns that map straight onto top-level body properties
+const CSV_SCALAR_COLUMNS = [
+	"title",
+	"author",
+	"website",
+	"theme",
+	"template",
+	"format",
+	"quality",
+	"font",
+	"size",
+	"width",
+	"height",
+	"scale",
+];
+
+function to_batch_item(value: unknown): batch_item {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return { body: {}, error: "Manifest item must be an object" };
+	}
+
+	const { filename, ...body } = value as Record<string, unknown>;
+	return {
+		body,
+		filename: typeof filename === "string" ? filename : undefined,
+	};
+}
+
+function parse_json_manifest(content: string): batch_item[] {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(content);
+	} catch (error) {
+		throw new manifest_error(`Invalid JSON: ${(error as Error).message}`);
+	}
+
+	const items = Array.isArray(parsed)
+		? parsed
+		: (parsed as { items?: unknown })?.items;
+	if (!Array.isArray(items)) {
+		throw new manifest_error(
+			'JSON manifest must be an array or an object with an "items" array'
+		);
+	}
+
+	return items.map(to_batch_item);
+}
+
+// RFC 4180 style: quoted values may contain commas, newlines and "" escapes
+function parse_csv(content: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let value = "";
+	let quoted = false;
+
+	for (let i = 0; i < content.length; i++) {
+		const char = content[i];
+
+		if (quoted) {
+			if (char === '"' && content[i + 1] === '"') {
+				value += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				value += char;
+			}
+		} else if (char === '"' && value === "") {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(value);
+			value = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && content[i + 1] === "\n") {
+				i++;
+			}
+			row.push(value);
+			rows.push(row);
+			row = [];
+			value = "";
+		} else {
+			value += char;
+		}
+	}
+
+	if (quoted) {
+		throw new manifest_error("Unterminated quoted value in CSV");
+	}
+	if (value !== "" || row.length > 0) {
+		row.push(value);
+		rows.push(row);
+	}
+
+	// Skip blank lines
+	return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+function parse_csv_manifest(content: string): batch_item[] {
+	// Strip a byte order mark left by spreadsheet exports
+	const [header, ...rows] = parse_csv(content.replace(/^\uFEFF/, ""));
+	if (!header) {
+		throw new manifest_error("CSV manifest is empty");
+	}
+
+	const columns = header.map((column) => column.trim());
+	if (!columns.includes("title")) {
+		throw new manifest_error('CSV manifest needs a "title" column');
+	}
+
+	return rows.map((cells) => {
+		const body: Record<string, unknown> = {};
+		let filename: string | undefined;
+
+		columns.forEach((column, index) => {
+			const cell = cells[index]?.trim();
+			if (!column || !cell) {
+				return;
+			}
+
+			if (column === "filename") {
+				filename = cell;
+			} else if (CSV_SCALAR_COLUMNS.includes(column)) {
+				body[column] = cell;
+			} else if (Object.hasOwn(CSV_GROUP_COLUMNS, column)) {
+				const [group, property] = CSV_GROUP_COLUMNS[column];
+				body[group] = { ...(body[group] as object), [property]: cell };
+			} else {
+				// Template fields - list fields are split on commas during validation
+				body.fields = { ...(body.fields as object), [column]: cell };
+			}
+		});
+
+		return { body, filename };
+	});
+}
+
+export function parse_manifest(
+	content: string,
+	type: manifest_type
+): batch_item[] {
+	return type === "csv"
+		? parse_csv_manifest(content)
+		: parse_json_manifest(content);
+}
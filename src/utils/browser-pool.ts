@@ -0,0 +1,269 @@
+import {
+	Browser,
+	BrowserContext,
+	BrowserContextOptions,
+	chromium,
+	Page,
+} from "playwright";
+import { log } from "./logger";
+import { render_duration } from "./metrics";
+
+// Pool configuration
+export const BROWSER_POOL_SIZE = Number(process.env.BROWSER_POOL_SIZE) || 2; // Concurrent renders per browser
+export const RENDER_QUEUE_MAX_DEPTH =
+	Number(process.env.RENDER_QUEUE_MAX_DEPTH) || 50; // Renders allowed to wait for a slot
+export const RENDER_QUEUE_TIMEOUT_MS =
+	Number(process.env.RENDER_QUEUE_TIMEOUT_MS) || 30000; // Max wait for a slot
+export const BROWSER_MAX_RENDERS =
+	Number(process.env.BROWSER_MAX_RENDERS) || 500; // Relaunch Chromium after this many renders
+export const RENDER_TIMEOUT_MS = Number(process.env.RENDER_TIMEOUT_MS) || 15000; // Max time a render may hold its slot
+
+// Thrown when a render cannot get a slot (queue full, timed out or pool closing)
+export class render_queue_error extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "render_queue_error";
+	}
+}
+
+// Thrown when a render holds its slot past RENDER_TIMEOUT_MS (page or browser hung)
+export class render_timeout_error extends Error {
+	constructor(timeout_ms: number) {
+		super(`Render timed out after ${timeout_ms}ms`);
+		this.name = "render_timeout_error";
+	}
+}
+
+interface queued_render {
+	resolve: () => void;
+	reject: (error: Error) => void;
+	timer: NodeJS.Timeout;
+}
+
+export class browser_pool {
+	private browser: Browser | null = null;
+	private launching: Promise<Browser> | null = null;
+	private browser_usage = new Map<Browser, number>();
+	private retired_browsers = new Set<Browser>();
+	private renders_since_launch = 0;
+	private active_renders = 0;
+	private queue: queued_render[] = [];
+	private closing = false;
+
+	// Run a task with a fresh context + page from the shared browser
+	public async with_page<T>(
+		context_options: BrowserContextOptions,
+		task: (page: Page) => Promise<T>
+	): Promise<T> {
+		await this.acquire_slot();
+
+		let browser: Browser | null = null;
+		try {
+			browser = await this.get_browser();
+			this.browser_usage.set(browser, (this.browser_usage.get(browser) || 0) + 1);
+
+			const pooled = browser;
+			let context: BrowserContext | undefined;
+			let timer: NodeJS.Timeout | undefined;
+			let timed_out = false;
+			try {
+				return await Promise.race([
+					(async () => {
+						context = await pooled.newContext(context_options);
+						return task(await context.newPage());
+					})(),
+					new Promise<never>((_, reject) => {
+						timer = setTimeout(() => {
+							timed_out = true;
+							reject(new render_timeout_error(RENDER_TIMEOUT_MS));
+						}, RENDER_TIMEOUT_MS);
+					}),
+				]);
+			} finally {
+				clearTimeout(timer);
+				const closing = context?.close().catch(() => {}); // Ignore close errors
+				if (timed_out) {
+					// A hung browser may never finish closing the context, so free
+					// the slot now and replace the browser once its renders finish
+					this.retire_browser(browser);
+				} else {
+					await closing;
+				}
+			}
+		} finally {
+			if (browser) {
+				this.release_browser(browser);
+			}
+			this.release_slot();
+		}
+	}
+
+	public get_stats() {
+		return {
+			browser_connected: this.browser?.isConnected() ?? false,
+			active_renders: this.active_renders,
+			queued_renders: this.queue.length,
+			renders_since_launch: this.renders_since_launch,
+			max_concurrency: BROWSER_POOL_SIZE,
+			max_queue_depth: RENDER_QUEUE_MAX_DEPTH,
+		};
+	}
+
+	// Reject waiting renders and close every browser
+	public async close(): Promise<void> {
+		this.closing = true;
+
+		for (const queued of this.queue.splice(0)) {
+			clearTimeout(queued.timer);
+			queued.reject(new render_queue_error("Browser pool is shutting down"));
+		}
+
+		const browsers = new Set<Browser>(this.retired_browsers);
+		if (this.browser) {
+			browsers.add(this.browser);
+		}
+		if (this.launching) {
+			const launched = await this.launching.catch(() => null);
+			if (launched) {
+				browsers.add(launched);
+			}
+		}
+
+		this.browser = null;
+		this.retired_browsers.clear();
+		this.browser_usage.clear();
+		await Promise.all(
+			Array.from(browsers).map((b) => b.close().catch(() => {}))
+		);
+	}
+
+	private acquire_slot(): Promise<void> {
+		if (this.closing) {
+			return Promise.reject(
+				new render_queue_error("Browser pool is shutting down")
+			);
+		}
+
+		if (this.active_renders < BROWSER_POOL_SIZE) {
+			this.active_renders++;
+			return Promise.resolve();
+		}
+
+		if (this.queue.length >= RENDER_QUEUE_MAX_DEPTH) {
+			return Promise.reject(new render_queue_error("Render queue is full"));
+		}
+
+		return new Promise((resolve, reject) => {
+			const queued: queued_render = {
+				resolve,
+				reject,
+				timer: setTimeout(() => {
+					const index = this.queue.indexOf(queued);
+					if (index !== -1) {
+						this.queue.splice(index, 1);
+					}
+					reject(
+						new render_queue_error(
+							`Timed out after ${RENDER_QUEUE_TIMEOUT_MS}ms waiting for a render slot`
+						)
+					);
+				}, RENDER_QUEUE_TIMEOUT_MS),
+			};
+			this.queue.push(queued);
+		});
+	}
+
+	private release_slot(): void {
+		const next = this.queue.shift();
+		if (next) {
+			// Hand the slot straight to the next waiter
+			clearTimeout(next.timer);
+			next.resolve();
+		} else {
+			this.active_renders--;
+		}
+	}
+
+	private async get_browser(): Promise<Browser> {
+		if (this.browser?.isConnected()) {
+			return this.browser;
+		}
+
+		if (!this.launching) {
+			this.launching = this.launch_browser().finally(() => {
+				this.launching = null;
+			});
+		}
+
+		return this.launching;
+	}
+
+	private async launch_browser(): Promise<Browser> {
+		log.info("Launching Playwright Chromium browser for pool");
+		const browser = await render_duration.time(
+			{ phase: "browser_launch" },
+			() =>
+				chromium.launch({
+					headless: true,
+					args: [
+						"--no-sandbox",
+						"--disable-setuid-sandbox",
+						"--disable-dev-shm-usage",
+					],
+				})
+		);
+
+		// Crashed browsers are dropped so the next render relaunches
+		browser.on("disconnected", () => {
+			if (this.browser === browser) {
+				log.error("Chromium browser disconnected, will relaunch");
+				this.browser = null;
+			}
+			this.browser_usage.delete(browser);
+			this.retired_browsers.delete(browser);
+		});
+
+		if (this.closing) {
+			await browser.close().catch(() => {});
+			throw new render_queue_error("Browser pool is shutting down");
+		}
+
+		this.browser = browser;
+		this.renders_since_launch = 0;
+		return browser;
+	}
+
+	// Recycle: new renders get a fresh browser, this one closes when idle
+	private retire_browser(browser: Browser): void {
+		if (browser === this.browser) {
+			this.browser = null;
+		}
+		if (browser.isConnected()) {
+			this.retired_browsers.add(browser);
+		}
+	}
+
+	private release_browser(browser: Browser): void {
+		const usage = (this.browser_usage.get(browser) || 1) - 1;
+		this.browser_usage.set(browser, usage);
+
+		if (browser === this.browser) {
+			this.renders_since_launch++;
+			if (this.renders_since_launch >= BROWSER_MAX_RENDERS) {
+				log.info("Recycling Chromium browser", {
+					renders: this.renders_since_launch,
+				});
+				this.retire_browser(browser);
+			}
+		}
+
+		if (usage <= 0 && this.retired_browsers.has(browser)) {
+			this.retired_browsers.delete(browser);
+			this.browser_usage.delete(browser);
+			browser.close().catch(() => {});
+		}
+	}
+}
+
+// Shared pool used by every image_generator instance
+export const shared_browser_pool = new browser_pool();
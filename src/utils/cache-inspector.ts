@@ -0,0 +1,186 @@
+import { CacheEntryInfo, is_stale } from "../types/cache-store";
+import { image_format, og_params } from "../types/og-params";
+import { cache_store } from "./cache-manager";
+
+export const CACHE_PAGE_SIZE = 50;
+export const CACHE_MAX_PAGE_SIZE = 200;
+
+// Narrow the listing (or a purge) by cache key and/or params
+export interface cache_filter {
+	prefix?: string; // Key prefix, e.g. "default-" for one template
+	search?: string; // Case-insensitive substring of the key or any param value
+	match?: string; // Glob (* and ?) matching the whole key or a whole param value
+}
+
+// One cache key across every tier holding it
+export interface cache_entry_summary {
+	key: string;
+	tiers: string[]; // Fastest first
+	format: image_format;
+	bytes: number;
+	age_seconds: number;
+	ttl_remaining_seconds: number; // Until the last tier holding it goes stale
+	stale: boolean; // Past its TTL, served while it's re-rendered
+	hits: number; // Summed across tiers
+	etag?: string;
+	params?: og_params;
+}
+
+export interface cache_listing {
+	entries: cache_entry_summary[];
+	total: number;
+	page: number;
+	limit: number;
+	pages: number;
+}
+
+function glob_to_regex(pattern: string): RegExp {
+	const source = pattern
+		.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+		.replace(/\*/g, ".*")
+		.replace(/\?/g, ".");
+	return new RegExp(`^${source}$`, "i");
+}
+
+// Every string in the params (title, website, fields, colours, image URLs ...)
+function param_values(value: unknown): string[] {
+	if (typeof value === "string") {
+		return [value];
+	}
+	if (typeof value === "number") {
+		return [String(value)];
+	}
+	if (value && typeof value === "object") {
+		return Object.values(value).flatMap(param_values);
+	}
+	return [];
+}
+
+function needs_params(filter: cache_filter): boolean {
+	return Boolean(filter.search || filter.match);
+}
+
+function matches_filter(
+	key: string,
+	params: og_params | undefined,
+	filter: cache_filter
+): boolean {
+	if (filter.prefix && !key.startsWith(filter.prefix)) {
+		return false;
+	}
+
+	const values = [key, ...param_values(params)];
+	if (filter.search) {
+		const search = filter.search.toLowerCase();
+		if (!values.some((value) => value.toLowerCase().includes(search))) {
+			return false;
+		}
+	}
+	if (filter.match) {
+		const pattern = glob_to_regex(filter.match);
+		if (!values.some((value) => pattern.test(value))) {
+			return false;
+		}
+	}
+	return true;
+}
+
+function summarise(
+	key: string,
+	infos: CacheEntryInfo[],
+	now: number = Date.now()
+): cache_entry_summary {
+	const [fastest] = infos;
+	return {
+		key,
+		tiers: infos.map((info) => info.tier),
+		format: fastest.format,
+		bytes: fastest.bytes,
+		age_seconds: Math.floor((now - fastest.created_at) / 1000),
+		ttl_remaining_seconds: Math.max(
+			0,
+			...infos.map((info) =>
+				Math.floor((info.created_at + info.ttl * 1000 - now) / 1000)
+			)
+		),
+		stale: infos.every((info) => is_stale(info, now)),
+		hits: infos.reduce((sum, info) => sum + (info.hits || 0), 0),
+		etag: infos.find((info) => info.etag)?.etag,
+		params: infos.find((info) => info.params)?.params,
+	};
+}
+
+// One key's summary, or null when no tier holds an unexpired copy
+export async function describe_cache_entry(
+	key: string
+): Promise<cache_entry_summary | null> {
+	const infos = await cache_store.describe_per_tier(key);
+	return infos.length ? summarise(key, infos) : null;
+}
+
+// Keys (sorted) matching the filter, with summaries when params were needed
+async function find_entries(
+	filter: cache_filter
+): Promise<{ keys: string[]; summaries?: Map<string, cache_entry_summary> }> {
+	const keys = (await cache_store.list())
+		.filter((key) => !filter.prefix || key.startsWith(filter.prefix))
+		.sort();
+
+	if (!needs_params(filter)) {
+		return { keys };
+	}
+
+	// Search and match look inside params, so every candidate is described
+	const summaries = new Map<string, cache_entry_summary>();
+	for (const key of keys) {
+		const summary = await describe_cache_entry(key);
+		if (summary && matches_filter(key, summary.params, filter)) {
+			summaries.set(key, summary);
+		}
+	}
+	return { keys: Array.from(summaries.keys()), summaries };
+}
+
+export async function list_cache_entries(
+	filter: cache_filter,
+	page: number = 1,
+	limit: number = CACHE_PAGE_SIZE
+): Promise<cache_listing> {
+	const { keys, summaries } = await find_entries(filter);
+	const page_keys = keys.slice((page - 1) * limit, page * limit);
+
+	const entries = await Promise.all(
+		page_keys.map(
+			async (key) => summaries?.get(key) ?? (await describe_cache_entry(key))
+		)
+	);
+
+	return {
+		// Keys can expire between listing and describing them
+		entries: entries.filter(
+			(entry): entry is cache_entry_summary => entry !== null
+		),
+		total: keys.length,
+		page,
+		limit,
+		pages: Math.ceil(keys.length / limit),
+	};
+}
+
+// Delete every entry matching the filter from every tier
+export async function purge_cache_entries(
+	filter: cache_filter
+): Promise<{ matched: number; deleted: Record<string, number> }> {
+	const { keys } = await find_entries(filter);
+	const deleted: Record<string, number> = Object.fromEntries(
+		cache_store.tiers.map((tier) => [tier.name, 0])
+	);
+
+	for (const key of keys) {
+		const results = await cache_store.delete_per_tier(key);
+		for (const [tier, removed] of Object.entries(results)) {
+			deleted[tier] += removed ? 1 : 0;
+		}
+	}
+	return { matched: keys.length, deleted };
+}
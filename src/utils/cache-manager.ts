@@ -1,154 +1,191 @@
-import { promises as fs } from "node:fs";
+import { Redis } from "@upstash/redis";
+import { createHash } from "node:crypto";
 import { join } from "node:path";
+import { CacheEntry, CacheStore, content_etag } from "../types/cache-store";
+import { og_params, rendered_image } from "../types/og-params";
+import { disk_cache_store } from "./cache-stores/disk-cache-store";
+import { ram_cache_store } from "./cache-stores/ram-cache-store";
+import { redis_cache_store } from "./cache-stores/redis-cache-store";
+import { tiered_cache_store } from "./cache-stores/tiered-cache-store";
+import { DEFAULT_FORMAT } from "./image-format";
+import { log } from "./logger";
+import { DEFAULT_TEMPLATE } from "./template-registry";
 
 // Cache configuration
 export const CACHE_DIR = join(process.cwd(), "cache");
 export const CACHE_TTL = Number(process.env.DEFAULT_CACHE_TTL) || 86400; // 24 hours in seconds
 export const HTTP_CACHE_TTL = Number(process.env.HTTP_CACHE_TTL) || 86400; // 24 hours for browsers/CDNs
+export const CACHE_STALE_TTL = Number(process.env.CACHE_STALE_TTL) || 86400; // Serve expired images this long while re-rendering
+export const HTTP_STALE_WHILE_REVALIDATE =
+	Number(process.env.HTTP_STALE_WHILE_REVALIDATE) || 86400; // CDNs may serve stale this long while refetching
+export const HTTP_STALE_IF_ERROR =
+	Number(process.env.HTTP_STALE_IF_ERROR) || 604800; // ... or this long when we're erroring
+export const STALE_HTTP_CACHE_TTL =
+	Number(process.env.STALE_HTTP_CACHE_TTL) || 60; // Stale images are re-rendered, so cache them briefly
 export const MAX_RAM_CACHE_SIZE =
 	Number(process.env.IMAGE_CACHE_MAX_SIZE) || 100;
+export const MAX_DISK_CACHE_BYTES =
+	Number(process.env.DISK_CACHE_MAX_BYTES) || 1024 * 1024 * 1024; // 1GB on disk
+export const MAX_RAM_CACHE_BYTES =
+	Number(process.env.IMAGE_CACHE_MAX_BYTES) || 50 * 1024 * 1024; // 50MB of image data
 export const SHORT_CACHE_TTL = Number(process.env.SHORT_CACHE_TTL) || 300; // 5 minutes for unauthorized requests
-
-// RAM cache (hot - most recently accessed)
-export interface RamCacheEntry {
-	buffer: Buffer;
-	timestamp: number;
-	ttl: number; // Time to live in seconds
-}
-
-export const ram_cache = new Map<string, RamCacheEntry>();
-
-// Ensure cache directory exists
-export async function ensure_cache_dir() {
-	try {
-		await fs.access(CACHE_DIR);
-	} catch {
-		await fs.mkdir(CACHE_DIR, { recursive: true });
+export const CACHE_TIERS = (process.env.CACHE_TIERS || "ram,disk")
+	.split(",")
+	.map((tier) => tier.trim())
+	.filter(Boolean); // Fastest first, e.g. "ram,disk,redis"
+
+// Tiers (RAM is always the hot tier for short-TTL unauthorized images)
+export const ram_store = new ram_cache_store(
+	MAX_RAM_CACHE_SIZE,
+	MAX_RAM_CACHE_BYTES
+);
+export const disk_store = new disk_cache_store(
+	CACHE_DIR,
+	CACHE_TTL,
+	MAX_DISK_CACHE_BYTES
+);
+
+function create_redis_store(): redis_cache_store | null {
+	const url =
+		process.env.CACHE_REDIS_REST_URL || process.env.UPSTASH_REDIS_REST_URL;
+	const token =
+		process.env.CACHE_REDIS_REST_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN;
+	if (!url || !token) {
+		log.error("CACHE_TIERS includes redis but no Redis URL/token is set");
+		return null;
 	}
+	return new redis_cache_store(new Redis({ url, token }));
 }
 
-// Cache cleanup function
-export function cleanup_cache() {
-	const now = Date.now();
-
-	// Clean up RAM cache - remove expired entries based on individual TTL
-	for (const [key, entry] of ram_cache.entries()) {
-		if (now - entry.timestamp > entry.ttl * 1000) {
-			ram_cache.delete(key);
+function create_tiers(): CacheStore[] {
+	const tiers: CacheStore[] = [ram_store];
+	for (const name of CACHE_TIERS) {
+		if (name === "disk") {
+			tiers.push(disk_store);
+		} else if (name === "redis") {
+			const redis_store = create_redis_store();
+			if (redis_store) {
+				tiers.push(redis_store);
+			}
+		} else if (name !== "ram") {
+			log.warn("Unknown cache tier in CACHE_TIERS, ignoring", { tier: name });
 		}
 	}
+	return tiers;
+}
 
-	// If RAM cache still too big, remove oldest entries
-	if (ram_cache.size > MAX_RAM_CACHE_SIZE) {
-		const entries = Array.from(ram_cache.entries()).sort(
-			([, a], [, b]) => a.timestamp - b.timestamp
-		);
+export const cache_store = new tiered_cache_store(create_tiers());
 
-		const to_remove = entries.slice(0, ram_cache.size - MAX_RAM_CACHE_SIZE);
-		for (const [key] of to_remove) {
-			ram_cache.delete(key);
-		}
+// Sorted keys with undefined values and empty objects dropped, so equal
+// params serialise identically whichever route (GET, POST, pre-warm) built them
+function canonicalise(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(canonicalise);
+	}
+	if (value && typeof value === "object") {
+		const entries = Object.keys(value)
+			.sort()
+			.map((key) => [
+				key,
+				canonicalise((value as Record<string, unknown>)[key]),
+			])
+			.filter(([, item]) => item !== undefined);
+		return entries.length ? Object.fromEntries(entries) : undefined;
 	}
+	return value;
 }
 
-// Hybrid cache functions
-export async function get_from_disk_cache(
-	cache_key: string
-): Promise<Buffer | null> {
-	try {
-		// Try JPEG first (new format), then PNG (legacy)
-		const base_name = cache_key.replace(/[^a-zA-Z0-9\-_]/g, "_");
-		let file_path = join(CACHE_DIR, `${base_name}.jpg`);
-
-		// Check if JPEG exists first
-		try {
-			const stats = await fs.stat(file_path);
-			const age = Date.now() - stats.mtime.getTime();
-			if (age <= CACHE_TTL * 1000) {
-				return await fs.readFile(file_path);
-			} else {
-				await fs.unlink(file_path).catch(() => {});
-			}
-		} catch {
-			// JPEG doesn't exist, try PNG (legacy)
-			file_path = join(CACHE_DIR, `${base_name}.png`);
-		}
-
-		const stats = await fs.stat(file_path);
-		// Check if file is expired
-		const age = Date.now() - stats.mtime.getTime();
-		if (age > CACHE_TTL * 1000) {
-			await fs.unlink(file_path).catch(() => {}); // Clean up expired file
-			return null;
-		}
-
-		return await fs.readFile(file_path);
-	} catch {
-		return null;
-	}
+// Build the cache key for a set of validated OG params: the template name
+// (for grouping) plus a hash of the canonical params
+export function get_cache_key(params: og_params): string {
+	const template = params.template || DEFAULT_TEMPLATE;
+	const canonical = JSON.stringify(
+		canonicalise({
+			...params,
+			template,
+			format: params.format || DEFAULT_FORMAT,
+		})
+	);
+	const hash = createHash("sha256").update(canonical).digest("hex");
+	return `${template}-${hash.slice(0, 32)}`;
 }
 
-export async function save_to_disk_cache(
-	cache_key: string,
-	buffer: Buffer
-): Promise<void> {
-	try {
-		const file_path = join(
-			CACHE_DIR,
-			`${cache_key.replace(/[^a-zA-Z0-9\-_]/g, "_")}.jpg`
-		);
-		await fs.writeFile(file_path, buffer);
-	} catch (error) {
-		console.error("Failed to save to disk cache:", error);
+// Cache cleanup function
+export function cleanup_cache() {
+	ram_store.prune();
+	if (cache_store.tiers.includes(disk_store)) {
+		disk_store
+			.sweep()
+			.catch((error) => log.error("Disk cache sweep failed", { error }));
 	}
 }
 
+// Slower tier writes run in the background after the RAM write
+const pending_writes = new Set<Promise<void>>();
+
 export async function get_cached_image(
 	cache_key: string
-): Promise<{ buffer: Buffer; source: "ram" | "disk" } | null> {
-	// Check RAM cache first (fastest)
-	const ram_entry = ram_cache.get(cache_key);
-	if (ram_entry) {
-		const age = Date.now() - ram_entry.timestamp;
-		if (age < ram_entry.ttl * 1000) {
-			return { buffer: ram_entry.buffer, source: "ram" };
-		} else {
-			ram_cache.delete(cache_key);
-		}
-	}
-
-	// Check disk cache (warm) - only for authorized requests (longer TTL)
-	const disk_buffer = await get_from_disk_cache(cache_key);
-	if (disk_buffer) {
-		// Promote to RAM cache with standard TTL
-		ram_cache.set(cache_key, {
-			buffer: disk_buffer,
-			timestamp: Date.now(),
-			ttl: CACHE_TTL,
-		});
-		return { buffer: disk_buffer, source: "disk" };
-	}
-
-	return null;
+): Promise<(CacheEntry & { source: string }) | null> {
+	// Check tiers fastest first, promoting hits from slower tiers
+	const result = await cache_store.lookup(cache_key);
+	return result ? { ...result.entry, source: result.source } : null;
 }
 
+// Store a freshly rendered image, returning the entry (with its ETag and
+// generation time) for the response headers
 export async function cache_image(
 	cache_key: string,
-	buffer: Buffer,
-	authorized: boolean = true
-): Promise<void> {
-	const timestamp = Date.now();
-	const ttl = authorized ? CACHE_TTL : SHORT_CACHE_TTL;
+	image: rendered_image,
+	authorized: boolean = true,
+	params?: og_params
+): Promise<CacheEntry> {
+	const entry: CacheEntry = {
+		buffer: image.buffer,
+		format: params?.format || DEFAULT_FORMAT,
+		created_at: Date.now(),
+		ttl: authorized ? CACHE_TTL : SHORT_CACHE_TTL,
+		// Only long-lived images are worth serving stale
+		stale_ttl: authorized ? CACHE_STALE_TTL : 0,
+		etag: content_etag(image.buffer),
+		params,
+		text_fit: image.text_fit,
+	};
 
 	// Save to RAM cache with appropriate TTL
-	ram_cache.set(cache_key, { buffer, timestamp, ttl });
+	await ram_store.set(cache_key, entry);
 
-	// Only save to disk cache if authorized (long-term caching)
+	// Only save to the persistent/shared tiers if authorized (long-term caching)
 	if (authorized) {
-		save_to_disk_cache(cache_key, buffer).catch(console.error);
+		const write = cache_store
+			.set(cache_key, entry)
+			.catch((error) => log.error("Cache write failed", { cache_key, error }))
+			.finally(() => pending_writes.delete(write));
+		pending_writes.add(write);
 	}
+	return entry;
 }
 
-// Initialize cache directory and cleanup
-ensure_cache_dir().catch(console.error);
-setInterval(cleanup_cache, 2 * 60 * 60 * 1000); // Run cache cleanup every 2 hours
+let cache_started = false;
+
+// Reconcile the disk index with the cache directory and start cleanup. Only
+// for processes that read or write the cache: reconciling deletes files this
+// process's index doesn't know about
+export function setup_cache(): void {
+	if (cache_started) {
+		return;
+	}
+	cache_started = true;
+	if (cache_store.tiers.includes(disk_store)) {
+		disk_store.initialise();
+	}
+	setInterval(cleanup_cache, 10 * 60 * 1000).unref(); // Expire and evict entries every 10 minutes
+}
+
+// Wait for background tier writes and persist the disk index, e.g. before a
+// CLI exits
+export async function flush_cache(): Promise<void> {
+	await Promise.all(Array.from(pending_writes));
+	if (cache_started && cache_store.tiers.includes(disk_store)) {
+		await disk_store.flush();
+	}
+}
@@ -0,0 +1,319 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import {
+	CacheEntry,
+	CacheEntryInfo,
+	CacheGetOptions,
+	CacheStats,
+	CacheStore,
+	content_etag,
+	is_expired,
+} from "../../types/cache-store";
+import {
+	image_format,
+	og_params,
+	text_fit_result,
+} from "../../types/og-params";
+import { OUTPUT_FORMATS } from "../image-format";
+import { log } from "../logger";
+
+const INDEX_FILE = "index.json";
+const INDEX_SAVE_DELAY_MS = 1000;
+
+// Sidecar metadata for one cached file
+interface disk_index_entry {
+	key: string;
+	file: string;
+	params?: og_params;
+	format: image_format;
+	size: number;
+	created_at: number;
+	last_accessed: number;
+	ttl: number;
+	stale_ttl?: number;
+	etag?: string; // Missing in indexes written before content ETags
+	hits?: number;
+	text_fit?: text_fit_result;
+}
+
+// Warm tier - hashed image files plus an index.json of what produced them,
+// persistent across restarts and capped by total bytes (LRU)
+export class disk_cache_store implements CacheStore {
+	public readonly name = "disk";
+	private index = new Map<string, disk_index_entry>();
+	private total_bytes = 0;
+	private evictions = 0;
+	private ready: Promise<void> | null = null;
+	private save_timer: NodeJS.Timeout | null = null;
+
+	constructor(
+		private directory: string,
+		private ttl: number,
+		private max_bytes: number
+	) {}
+
+	private file_name(key: string, format: image_format): string {
+		const hash = createHash("sha256").update(key).digest("hex").slice(0, 40);
+		return `${hash}.${OUTPUT_FORMATS[format].extension}`;
+	}
+
+	// Load the index and reconcile it with the files actually on disk
+	public initialise(): Promise<void> {
+		if (!this.ready) {
+			this.ready = this.reconcile().catch((error) => {
+				log.error("Disk cache reconciliation failed", { error });
+			});
+		}
+		return this.ready;
+	}
+
+	private async reconcile(): Promise<void> {
+		await fs.mkdir(this.directory, { recursive: true });
+
+		let saved: disk_index_entry[] = [];
+		try {
+			saved = JSON.parse(
+				await fs.readFile(join(this.directory, INDEX_FILE), "utf-8")
+			);
+		} catch {
+			// No index yet (fresh or pre-index cache directory)
+		}
+
+		// Drop index entries whose file is gone
+		for (const entry of saved) {
+			try {
+				const stats = await fs.stat(join(this.directory, entry.file));
+				this.index.set(entry.key, { ...entry, size: stats.size });
+				this.total_bytes += stats.size;
+			} catch {
+				// File missing
+			}
+		}
+
+		// Remove orphans, including legacy sanitised-name .jpg/.png files
+		const known = new Set(
+			Array.from(this.index.values()).map((entry) => entry.file)
+		);
+		let removed = 0;
+		for (const file of await fs.readdir(this.directory)) {
+			if (file === INDEX_FILE || known.has(file)) {
+				continue;
+			}
+			const stats = await fs.stat(join(this.directory, file));
+			if (stats.isFile()) {
+				await fs.unlink(join(this.directory, file)).catch(() => {});
+				removed++;
+			}
+		}
+
+		if (removed > 0) {
+			log.info("Removed orphaned disk cache files", { removed });
+		}
+
+		await this.sweep();
+		this.schedule_save();
+	}
+
+	private schedule_save(): void {
+		if (this.save_timer) {
+			return;
+		}
+		this.save_timer = setTimeout(() => {
+			this.save_timer = null;
+			this.save_index().catch((error) =>
+				log.error("Failed to save disk cache index", { error })
+			);
+		}, INDEX_SAVE_DELAY_MS);
+		this.save_timer.unref();
+	}
+
+	// Save a pending index change now instead of after the debounce delay
+	public async flush(): Promise<void> {
+		await this.initialise();
+		if (this.save_timer) {
+			clearTimeout(this.save_timer);
+			this.save_timer = null;
+			await this.save_index();
+		}
+	}
+
+	private async save_index(): Promise<void> {
+		// Write then rename so a crash never leaves a half-written index
+		const index_path = join(this.directory, INDEX_FILE);
+		await fs.writeFile(
+			`${index_path}.tmp`,
+			JSON.stringify(Array.from(this.index.values()))
+		);
+		await fs.rename(`${index_path}.tmp`, index_path);
+	}
+
+	private async remove(key: string): Promise<boolean> {
+		const entry = this.index.get(key);
+		if (!entry) {
+			return false;
+		}
+		this.index.delete(key);
+		this.total_bytes -= entry.size;
+		await fs.unlink(join(this.directory, entry.file)).catch(() => {});
+		this.schedule_save();
+		return true;
+	}
+
+	// Remove expired entries, then least recently accessed until under the cap
+	public async sweep(): Promise<void> {
+		const now = Date.now();
+		for (const entry of Array.from(this.index.values())) {
+			if (is_expired(entry, now)) {
+				await this.remove(entry.key);
+			}
+		}
+
+		if (this.total_bytes <= this.max_bytes) {
+			return;
+		}
+
+		const by_access = Array.from(this.index.values()).sort(
+			(a, b) => a.last_accessed - b.last_accessed
+		);
+		for (const entry of by_access) {
+			if (this.total_bytes <= this.max_bytes) {
+				break;
+			}
+			await this.remove(entry.key);
+			this.evictions++;
+		}
+	}
+
+	public async get(
+		key: string,
+		options: CacheGetOptions = {}
+	): Promise<CacheEntry | null> {
+		await this.initialise();
+
+		const entry = this.index.get(key);
+		if (!entry) {
+			return null;
+		}
+
+		const cache_entry: CacheEntry = {
+			buffer: Buffer.alloc(0),
+			format: entry.format,
+			created_at: entry.created_at,
+			ttl: entry.ttl,
+			stale_ttl: entry.stale_ttl,
+			etag: entry.etag || "",
+			params: entry.params,
+			text_fit: entry.text_fit,
+		};
+		if (is_expired(cache_entry)) {
+			await this.remove(key); // Clean up expired file
+			return null;
+		}
+
+		try {
+			cache_entry.buffer = await fs.readFile(
+				join(this.directory, entry.file)
+			);
+		} catch {
+			// File deleted behind our back
+			await this.remove(key);
+			return null;
+		}
+
+		if (!entry.etag) {
+			entry.etag = cache_entry.etag = content_etag(cache_entry.buffer);
+			this.schedule_save();
+		}
+		if (!options.peek) {
+			entry.last_accessed = Date.now();
+			entry.hits = (entry.hits || 0) + 1;
+			this.schedule_save();
+		}
+		return cache_entry;
+	}
+
+	public async describe(key: string): Promise<CacheEntryInfo | null> {
+		await this.initialise();
+
+		const entry = this.index.get(key);
+		if (!entry || is_expired(entry)) {
+			return null;
+		}
+		return {
+			tier: this.name,
+			format: entry.format,
+			bytes: entry.size,
+			created_at: entry.created_at,
+			ttl: entry.ttl,
+			stale_ttl: entry.stale_ttl,
+			hits: entry.hits || 0,
+			etag: entry.etag || "",
+			params: entry.params,
+		};
+	}
+
+	public async set(key: string, entry: CacheEntry): Promise<void> {
+		await this.initialise();
+
+		const existing = this.index.get(key);
+		const file = this.file_name(key, entry.format);
+		if (existing && existing.file !== file) {
+			await this.remove(key);
+		}
+
+		await fs.writeFile(join(this.directory, file), entry.buffer);
+
+		const previous_size = this.index.get(key)?.size ?? 0;
+		this.total_bytes += entry.buffer.length - previous_size;
+		this.index.set(key, {
+			key,
+			file,
+			params: entry.params,
+			format: entry.format,
+			size: entry.buffer.length,
+			created_at: entry.created_at,
+			etag: entry.etag,
+			text_fit: entry.text_fit,
+			last_accessed: Date.now(),
+			// Disk only holds long-lived images
+			ttl: Math.max(entry.ttl, this.ttl),
+			stale_ttl: entry.stale_ttl,
+		});
+		this.schedule_save();
+
+		if (this.total_bytes > this.max_bytes) {
+			await this.sweep();
+		}
+	}
+
+	public async delete(key: string): Promise<boolean> {
+		await this.initialise();
+		return this.remove(key);
+	}
+
+	public async list(): Promise<string[]> {
+		await this.initialise();
+		return Array.from(this.index.keys());
+	}
+
+	public async clear(): Promise<number> {
+		await this.initialise();
+		const keys = Array.from(this.index.keys());
+		for (const key of keys) {
+			await this.remove(key);
+		}
+		return keys.length;
+	}
+
+	public async stats(): Promise<CacheStats> {
+		await this.initialise();
+		return {
+			name: this.name,
+			entries: this.index.size,
+			bytes: this.total_bytes,
+			max_bytes: this.max_bytes,
+			evictions: this.evictions,
+		};
+	}
+}
@@ -0,0 +1,147 @@
+import {
+	CacheEntry,
+	CacheEntryInfo,
+	CacheGetOptions,
+	CacheStats,
+	CacheStore,
+	is_expired,
+} from "../../types/cache-store";
+
+// Hot tier - least recently used entries are evicted first, lost on restart.
+// Map iteration order doubles as the LRU list: oldest access first.
+export class ram_cache_store implements CacheStore {
+	public readonly name = "ram";
+	private entries = new Map<string, CacheEntry>();
+	private entry_hits = new Map<string, number>();
+	private total_bytes = 0;
+	private hits = 0;
+	private misses = 0;
+	private evictions = 0;
+
+	constructor(private max_entries: number, private max_bytes: number) {}
+
+	public get size(): number {
+		return this.entries.size;
+	}
+
+	public async get(
+		key: string,
+		options: CacheGetOptions = {}
+	): Promise<CacheEntry | null> {
+		const entry = this.entries.get(key);
+		if (!entry || is_expired(entry)) {
+			if (entry) {
+				this.remove(key);
+			}
+			if (!options.peek) {
+				this.misses++;
+			}
+			return null;
+		}
+
+		if (!options.peek) {
+			// Move to the most recently used end
+			this.entries.delete(key);
+			this.entries.set(key, entry);
+			this.hits++;
+			this.entry_hits.set(key, (this.entry_hits.get(key) || 0) + 1);
+		}
+		return entry;
+	}
+
+	public async describe(key: string): Promise<CacheEntryInfo | null> {
+		const entry = this.entries.get(key);
+		if (!entry || is_expired(entry)) {
+			return null;
+		}
+		return {
+			tier: this.name,
+			format: entry.format,
+			bytes: entry.buffer.length,
+			created_at: entry.created_at,
+			ttl: entry.ttl,
+			stale_ttl: entry.stale_ttl,
+			hits: this.entry_hits.get(key) || 0,
+			etag: entry.etag,
+			params: entry.params,
+		};
+	}
+
+	public async set(key: string, entry: CacheEntry): Promise<void> {
+		this.remove(key);
+
+		// An image bigger than the whole budget would just evict everything
+		if (entry.buffer.length > this.max_bytes) {
+			return;
+		}
+
+		this.entries.set(key, entry);
+		this.total_bytes += entry.buffer.length;
+		this.evict();
+	}
+
+	public async delete(key: string): Promise<boolean> {
+		return this.remove(key);
+	}
+
+	public async list(): Promise<string[]> {
+		return Array.from(this.entries.keys());
+	}
+
+	public async clear(): Promise<number> {
+		const cleared = this.entries.size;
+		this.entries.clear();
+		this.entry_hits.clear();
+		this.total_bytes = 0;
+		return cleared;
+	}
+
+	public async stats(): Promise<CacheStats> {
+		return {
+			name: this.name,
+			entries: this.entries.size,
+			bytes: this.total_bytes,
+			max_entries: this.max_entries,
+			max_bytes: this.max_bytes,
+			hits: this.hits,
+			misses: this.misses,
+			evictions: this.evictions,
+		};
+	}
+
+	// Remove expired entries (limits are enforced on insert)
+	public prune(): void {
+		const now = Date.now();
+
+		for (const [key, entry] of this.entries.entries()) {
+			if (is_expired(entry, now)) {
+				this.remove(key);
+			}
+		}
+	}
+
+	private remove(key: string): boolean {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return false;
+		}
+		this.entries.delete(key);
+		this.entry_hits.delete(key);
+		this.total_bytes -= entry.buffer.length;
+		return true;
+	}
+
+	// Drop least recently used entries until within both limits
+	private evict(): void {
+		for (const key of this.entries.keys()) {
+			if (
+				this.entries.size <= this.max_entries &&
+				this.total_bytes <= this.max_bytes
+			) {
+				break;
+			}
+			this.remove(key);
+			this.evictions++;
+		}
+	}
+}
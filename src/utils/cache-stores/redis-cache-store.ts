@@ -0,0 +1,146 @@
+import { Redis } from "@upstash/redis";
+import {
+	CacheEntry,
+	CacheEntryInfo,
+	CacheStats,
+	CacheStore,
+	content_etag,
+} from "../../types/cache-store";
+import {
+	image_format,
+	og_params,
+	text_fit_result,
+} from "../../types/og-params";
+
+// Counting entries SCANs the whole keyspace, so reuse a count this long
+const ENTRY_COUNT_MAX_AGE_MS = 5 * 60 * 1000;
+
+interface redis_cache_value {
+	data: string; // Base64 image
+	format: image_format;
+	created_at: number;
+	ttl: number;
+	stale_ttl?: number;
+	etag?: string; // Missing in values written before content ETags
+	params?: og_params;
+	text_fit?: text_fit_result;
+}
+
+// Shared tier - lets several replicas reuse each other's renders
+export class redis_cache_store implements CacheStore {
+	public readonly name = "redis";
+	private entry_count: { entries: number; counted_at: number } | null = null;
+	private counting: Promise<number> | null = null;
+
+	constructor(
+		private redis: Redis,
+		private prefix: string = "og-image-cache:"
+	) {}
+
+	private async scan_keys(): Promise<string[]> {
+		const keys: string[] = [];
+		let cursor: string | number = 0;
+		do {
+			const [next_cursor, batch]: [string, string[]] = await this.redis.scan(
+				cursor,
+				{ match: `${this.prefix}*`, count: 500 }
+			);
+			keys.push(...batch);
+			cursor = next_cursor;
+		} while (String(cursor) !== "0");
+		return keys;
+	}
+
+	public async get(key: string): Promise<CacheEntry | null> {
+		const value = await this.redis.get<redis_cache_value>(this.prefix + key);
+		if (!value) {
+			return null;
+		}
+		const buffer = Buffer.from(value.data, "base64");
+		return {
+			buffer,
+			format: value.format,
+			created_at: value.created_at,
+			ttl: value.ttl,
+			stale_ttl: value.stale_ttl,
+			etag: value.etag || content_etag(buffer),
+			params: value.params,
+			text_fit: value.text_fit,
+		};
+	}
+
+	// Values are stored whole, so this downloads the image too
+	public async describe(key: string): Promise<CacheEntryInfo | null> {
+		const entry = await this.get(key);
+		if (!entry) {
+			return null;
+		}
+		const { buffer, ...info } = entry;
+		return { ...info, tier: this.name, bytes: buffer.length };
+	}
+
+	public async set(key: string, entry: CacheEntry): Promise<void> {
+		const value: redis_cache_value = {
+			data: entry.buffer.toString("base64"),
+			format: entry.format,
+			created_at: entry.created_at,
+			ttl: entry.ttl,
+			stale_ttl: entry.stale_ttl,
+			etag: entry.etag,
+			params: entry.params,
+			text_fit: entry.text_fit,
+		};
+		// Redis expires the key itself, once the grace window is over too
+		await this.redis.set(this.prefix + key, value, {
+			ex: entry.ttl + (entry.stale_ttl || 0),
+		});
+	}
+
+	public async delete(key: string): Promise<boolean> {
+		return (await this.redis.del(this.prefix + key)) > 0;
+	}
+
+	public async list(): Promise<string[]> {
+		const keys = await this.scan_keys();
+		return keys.map((k) => k.slice(this.prefix.length));
+	}
+
+	public async clear(): Promise<number> {
+		const keys = await this.scan_keys();
+		if (keys.length > 0) {
+			await this.redis.del(...keys);
+		}
+		this.entry_count = null;
+		return keys.length;
+	}
+
+	// Entry count up to ENTRY_COUNT_MAX_AGE_MS old; concurrent callers (e.g.
+	// a scrape and /health) share one SCAN
+	private async count_entries(): Promise<number> {
+		if (
+			this.entry_count &&
+			Date.now() - this.entry_count.counted_at < ENTRY_COUNT_MAX_AGE_MS
+		) {
+			return this.entry_count.entries;
+		}
+		if (!this.counting) {
+			this.counting = this.scan_keys()
+				.then((keys) => {
+					this.entry_count = {
+						entries: keys.length,
+						counted_at: Date.now(),
+					};
+					return keys.length;
+				})
+				.finally(() => {
+					this.counting = null;
+				});
+		}
+		return this.counting;
+	}
+
+	public async stats(): Promise<CacheStats> {
+		// Byte usage would mean downloading every image, so only count entries
+		return { name: this.name, entries: await this.count_entries(), bytes: 0 };
+	}
+}
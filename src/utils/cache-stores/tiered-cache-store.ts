@@ -0,0 +1,128 @@
+import {
+	CacheEntry,
+	CacheEntryInfo,
+	CacheGetOptions,
+	CacheStats,
+	CacheStore,
+} from "../../types/cache-store";
+import { log } from "../logger";
+
+// Fastest tier first; hits in a slower tier are promoted to the faster ones
+export class tiered_cache_store implements CacheStore {
+	public readonly name = "tiered";
+
+	constructor(public readonly tiers: CacheStore[]) {}
+
+	// Like get, but also reports which tier served the entry
+	public async lookup(
+		key: string,
+		options: CacheGetOptions = {}
+	): Promise<{ entry: CacheEntry; source: string } | null> {
+		for (let i = 0; i < this.tiers.length; i++) {
+			const tier = this.tiers[i];
+			let entry: CacheEntry | null = null;
+			try {
+				entry = await tier.get(key, options);
+			} catch (error) {
+				log.error("Cache tier get failed", { tier: tier.name, error });
+			}
+
+			if (entry && options.peek) {
+				return { entry, source: tier.name };
+			}
+			if (entry) {
+				const found = entry;
+				await Promise.all(
+					this.tiers.slice(0, i).map((faster) =>
+						faster
+							.set(key, found)
+							.catch((error) =>
+								log.error("Cache tier promote failed", {
+									tier: faster.name,
+									error,
+								})
+							)
+					)
+				);
+				return { entry, source: tier.name };
+			}
+		}
+		return null;
+	}
+
+	public async get(
+		key: string,
+		options?: CacheGetOptions
+	): Promise<CacheEntry | null> {
+		return (await this.lookup(key, options))?.entry ?? null;
+	}
+
+	public async describe(key: string): Promise<CacheEntryInfo | null> {
+		return (await this.describe_per_tier(key))[0] ?? null;
+	}
+
+	// The entry's metadata in every tier holding it, fastest first
+	public async describe_per_tier(key: string): Promise<CacheEntryInfo[]> {
+		const results = await Promise.all(
+			this.tiers.map((tier) =>
+				tier.describe(key).catch((error) => {
+					log.error("Cache tier describe failed", { tier: tier.name, error });
+					return null;
+				})
+			)
+		);
+		return results.filter((info): info is CacheEntryInfo => info !== null);
+	}
+
+	public async set(key: string, entry: CacheEntry): Promise<void> {
+		await Promise.all(
+			this.tiers.map((tier) =>
+				tier.set(key, entry).catch((error) =>
+					log.error("Cache tier set failed", { tier: tier.name, error })
+				)
+			)
+		);
+	}
+
+	public async delete(key: string): Promise<boolean> {
+		const results = await this.delete_per_tier(key);
+		return Object.values(results).some(Boolean);
+	}
+
+	public async delete_per_tier(key: string): Promise<Record<string, boolean>> {
+		const results = await Promise.all(
+			this.tiers.map((tier) => tier.delete(key).catch(() => false))
+		);
+		return Object.fromEntries(
+			this.tiers.map((tier, i) => [tier.name, results[i]])
+		);
+	}
+
+	public async list(): Promise<string[]> {
+		const lists = await Promise.all(this.tiers.map((tier) => tier.list()));
+		return Array.from(new Set(lists.flat()));
+	}
+
+	public async clear(): Promise<number> {
+		const cleared = await this.clear_per_tier();
+		return Object.values(cleared).reduce((sum, n) => sum + n, 0);
+	}
+
+	public async clear_per_tier(): Promise<Record<string, number>> {
+		const results = await Promise.all(
+			this.tiers.map((tier) => tier.clear().catch(() => 0))
+		);
+		return Object.fromEntries(
+			this.tiers.map((tier, i) => [tier.name, results[i]])
+		);
+	}
+
+	public async stats(): Promise<CacheStats> {
+		const stats = await Promise.all(this.tiers.map((tier) => tier.stats()));
+		return {
+			name: this.name,
+			entries: stats.reduce((sum, s) => sum + s.entries, 0),
+			bytes: stats.reduce((sum, s) => sum + s.bytes, 0),
+		};
+	}
+}
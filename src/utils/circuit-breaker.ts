@@ -0,0 +1,110 @@
+import { log } from "./logger";
+
+export type circuit_state = "closed" | "open" | "half_open";
+
+// Thrown instead of running the task while the circuit is open
+export class circuit_open_error extends Error {
+	constructor(name: string, public readonly retry_after_ms: number) {
+		super(`${name} circuit is open after repeated failures`);
+		this.name = "circuit_open_error";
+	}
+}
+
+export interface circuit_breaker_options {
+	name: string;
+	failure_threshold: number; // Consecutive failures that open the circuit
+	cooldown_ms: number; // How long it stays open before a trial run
+	is_failure?: (error: unknown) => boolean; // Others pass through uncounted
+}
+
+// Stops calling something that keeps failing: after failure_threshold failures
+// in a row every call fails fast for cooldown_ms, then one trial call decides
+// whether to close the circuit again or stay open for another cooldown
+export class circuit_breaker {
+	private state: circuit_state = "closed";
+	private consecutive_failures = 0;
+	private opened_at = 0;
+	private trial_running = false;
+	private times_opened = 0;
+
+	constructor(private readonly options: circuit_breaker_options) {}
+
+	public async run<T>(task: () => Promise<T>): Promise<T> {
+		this.before_call();
+
+		let result: T;
+		try {
+			result = await task();
+		} catch (error) {
+			if (this.options.is_failure?.(error) ?? true) {
+				this.record_failure(error);
+			} else {
+				this.trial_running = false;
+			}
+			throw error;
+		}
+
+		this.record_success();
+		return result;
+	}
+
+	private before_call(): void {
+		if (this.state === "closed") {
+			return;
+		}
+
+		const retry_after_ms =
+			this.opened_at + this.options.cooldown_ms - Date.now();
+		if (this.state === "open" && retry_after_ms <= 0) {
+			this.state = "half_open";
+		}
+		// Half open lets a single trial call through; the rest keep failing fast
+		if (this.state === "half_open" && !this.trial_running) {
+			this.trial_running = true;
+			return;
+		}
+		throw new circuit_open_error(
+			this.options.name,
+			Math.max(0, retry_after_ms)
+		);
+	}
+
+	private record_success(): void {
+		if (this.state !== "closed") {
+			log.info(`${this.options.name} circuit closed`);
+		}
+		this.state = "closed";
+		this.consecutive_failures = 0;
+		this.trial_running = false;
+	}
+
+	private record_failure(error: unknown): void {
+		this.consecutive_failures++;
+		this.trial_running = false;
+
+		if (
+			this.state === "half_open" ||
+			this.consecutive_failures >= this.options.failure_threshold
+		) {
+			// Calls already running when it opened don't extend the cooldown
+			if (this.state !== "open") {
+				this.times_opened++;
+				this.state = "open";
+				this.opened_at = Date.now();
+				log.error(`${this.options.name} circuit opened`, {
+					consecutive_failures: this.consecutive_failures,
+					cooldown_ms: this.options.cooldown_ms,
+					error,
+				});
+			}
+		}
+	}
+
+	public get_stats() {
+		return {
+			state: this.state,
+			consecutive_failures: this.consecutive_failures,
+			times_opened: this.times_opened,
+		};
+	}
+}
@@ -0,0 +1,83 @@
+import * as fs from "fs";
+import * as path from "path";
+import { image_format } from "../types/og-params";
+import { log } from "./logger";
+
+export const FALLBACK_DIR =
+	process.env.FALLBACK_DIR || path.join(process.cwd(), "fallback");
+export const FALLBACK_CACHE_TTL = Number(process.env.FALLBACK_CACHE_TTL) || 60; // Short, so the real image replaces it soon
+
+// Catch-all used when no template or theme specific image exists
+const DEFAULT_FALLBACK_NAME = "fallback";
+
+const FALLBACK_EXTENSIONS: Record<string, image_format> = {
+	png: "png",
+	jpg: "jpeg",
+	jpeg: "jpeg",
+	webp: "webp",
+	avif: "avif",
+};
+
+// A pre-rendered image served in place of one that failed to render
+export interface fallback_image {
+	name: string; // File name, e.g. default-dark.png
+	format: image_format;
+	buffer: Buffer;
+}
+
+let fallbacks: Map<string, fallback_image> | null = null;
+
+// Every image in FALLBACK_DIR, by file name without its extension
+export function load_fallback_images(): Map<string, fallback_image> {
+	const loaded = new Map<string, fallback_image>();
+
+	let files: string[] = [];
+	try {
+		files = fs.readdirSync(FALLBACK_DIR);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+			log.error("Could not read fallback images directory", { error });
+		}
+	}
+
+	for (const file of files) {
+		const extension = path.extname(file).slice(1).toLowerCase();
+		const format = FALLBACK_EXTENSIONS[extension];
+		if (!format) {
+			continue;
+		}
+		try {
+			loaded.set(path.basename(file, path.extname(file)), {
+				name: file,
+				format,
+				buffer: fs.readFileSync(path.join(FALLBACK_DIR, file)),
+			});
+		} catch (error) {
+			log.warn("Could not read fallback image, skipping", { file, error });
+		}
+	}
+
+	fallbacks = loaded;
+	return loaded;
+}
+
+// Most specific first: <template>-<theme>, <template>, <theme>, then fallback
+export function get_fallback_image(
+	template: string,
+	theme?: string
+): fallback_image | undefined {
+	const available = fallbacks || load_fallback_images();
+	const candidates = [
+		theme ? `${template}-${theme}` : "",
+		template,
+		theme || "",
+		DEFAULT_FALLBACK_NAME,
+	];
+	for (const name of candidates) {
+		const image = name ? available.get(name) : undefined;
+		if (image) {
+			return image;
+		}
+	}
+	return undefined;
+}
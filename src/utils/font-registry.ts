@@ -0,0 +1,181 @@
+import * as fs from "fs";
+import * as path from "path";
+import { log } from "./logger";
+
+export const FONTS_DIR =
+	process.env.FONTS_DIR || path.join(process.cwd(), "fonts");
+export const DEFAULT_FONT = process.env.DEFAULT_FONT || "inter";
+
+// System fonts (installed in the Docker image, see Dockerfile) for text the
+// selected font has no glyphs for. CJK fonts are far too large to inline into
+// every render like fonts/ are. Colour emoji comes last so symbols the text
+// fonts do cover (digits, #, ©) keep their text presentation
+const FALLBACK_TEXT_FAMILIES = [
+	"Noto Sans",
+	"Noto Sans Arabic",
+	"Noto Sans Hebrew",
+];
+const FALLBACK_EMOJI_FAMILY = "Noto Color Emoji";
+
+// Han characters are shared by Chinese, Japanese and Korean but drawn
+// differently in each, so the document's lang picks which CJK family goes first
+const CJK_FAMILIES: Record<string, string> = {
+	ja: "Noto Sans CJK JP",
+	ko: "Noto Sans CJK KR",
+	zh: "Noto Sans CJK SC",
+};
+const DEFAULT_CJK_LANG = "ja";
+
+const FONT_ID_PATTERN = /^[a-z0-9][a-z0-9\-_]*$/;
+
+const FONT_FORMATS: Record<string, { mime: string; format: string }> = {
+	woff2: { mime: "font/woff2", format: "woff2" },
+	woff: { mime: "font/woff", format: "woff" },
+	ttf: { mime: "font/ttf", format: "truetype" },
+	otf: { mime: "font/otf", format: "opentype" },
+};
+
+// One file of a font family, as listed in fonts/<id>/font.json
+interface font_face {
+	file: string;
+	weight?: number | string;
+	style?: string;
+	unicode_range?: string;
+}
+
+export interface font_definition {
+	id: string;
+	family: string;
+	faces: font_face[];
+}
+
+let registry: Map<string, font_definition> | null = null;
+const font_face_css_cache = new Map<string, string>();
+
+// Each fonts/<id>/ directory with a font.json manifest is an installed font
+export function discover_fonts(): Map<string, font_definition> {
+	const discovered = new Map<string, font_definition>();
+
+	let directories: string[] = [];
+	try {
+		directories = fs.readdirSync(FONTS_DIR);
+	} catch (error) {
+		log.error("Could not read fonts directory", { error });
+	}
+
+	for (const id of directories) {
+		if (!FONT_ID_PATTERN.test(id)) {
+			continue;
+		}
+
+		const manifest_path = path.join(FONTS_DIR, id, "font.json");
+		try {
+			const manifest = JSON.parse(
+				fs.readFileSync(manifest_path, "utf-8")
+			) as { family?: unknown; faces?: unknown };
+			const faces = Array.isArray(manifest.faces)
+				? (manifest.faces as font_face[]).filter(
+						(face) =>
+							typeof face.file === "string" &&
+							path.basename(face.file) === face.file &&
+							Object.hasOwn(
+								FONT_FORMATS,
+								path.extname(face.file).slice(1)
+							)
+				  )
+				: [];
+
+			if (typeof manifest.family !== "string" || faces.length === 0) {
+				log.warn("Font has no family or usable faces, skipping", { font: id });
+				continue;
+			}
+
+			discovered.set(id, {
+				id,
+				family: manifest.family.replace(/["\\;{}<>]/g, ""),
+				faces,
+			});
+		} catch {
+			// Not a font directory (no manifest)
+		}
+	}
+
+	registry = discovered;
+	font_face_css_cache.clear();
+	return discovered;
+}
+
+export function list_fonts(): font_definition[] {
+	return Array.from((registry || discover_fonts()).values());
+}
+
+export function get_font(id: string): font_definition | undefined {
+	return (registry || discover_fonts()).get(id);
+}
+
+// @font-face rules with the files inlined as data URIs, since rendered pages
+// have no origin to load relative URLs from
+export function get_font_face_css(id: string): string {
+	const cached = font_face_css_cache.get(id);
+	if (cached !== undefined) {
+		return cached;
+	}
+
+	const font = get_font(id);
+	if (!font) {
+		return "";
+	}
+
+	const rules = font.faces.map((face) => {
+		const { mime, format } = FONT_FORMATS[path.extname(face.file).slice(1)];
+		const data = fs
+			.readFileSync(path.join(FONTS_DIR, id, face.file))
+			.toString("base64");
+
+		return [
+			"@font-face {",
+			`font-family: "${font.family}";`,
+			`font-style: ${face.style || "normal"};`,
+			`font-weight: ${face.weight || 400};`,
+			"font-display: block;",
+			`src: url(data:${mime};base64,${data}) format("${format}");`,
+			face.unicode_range ? `unicode-range: ${face.unicode_range};` : "",
+			"}",
+		].join(" ");
+	});
+
+	const css = rules.join("\n");
+	font_face_css_cache.set(id, css);
+	return css;
+}
+
+// CSS variables templates use for their font stack
+export function get_font_css_variables(id: string): Record<string, string> {
+	const font = get_font(id);
+	return font ? { "--og-font-family": `"${font.family}"` } : {};
+}
+
+function fallback_stack(cjk_lang: string): string {
+	const cjk = [
+		CJK_FAMILIES[cjk_lang],
+		...Object.entries(CJK_FAMILIES)
+			.filter(([lang]) => lang !== cjk_lang)
+			.map(([, family]) => family),
+	];
+	return [...FALLBACK_TEXT_FAMILIES, ...cjk, FALLBACK_EMOJI_FAMILY]
+		.map((family) => `"${family}"`)
+		.join(", ");
+}
+
+// --og-font-fallback for template font stacks, following <html lang>
+export function get_fallback_font_css(): string {
+	return [
+		`:root { --og-font-fallback: ${fallback_stack(DEFAULT_CJK_LANG)}; }`,
+		...Object.keys(CJK_FAMILIES)
+			.filter((lang) => lang !== DEFAULT_CJK_LANG)
+			.map(
+				(lang) =>
+					`:root:lang(${lang}) { --og-font-fallback: ${fallback_stack(lang)}; }`
+			),
+	].join("\n");
+}
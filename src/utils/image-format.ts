@@ -0,0 +1,51 @@
+import sharp from "sharp";
+import { image_format } from "../types/og-params";
+
+export const OUTPUT_FORMATS: Record<
+	image_format,
+	{ content_type: string; extension: string; default_quality?: number }
+> = {
+	jpeg: { content_type: "image/jpeg", extension: "jpg", default_quality: 85 },
+	png: { content_type: "image/png", extension: "png" },
+	webp: { content_type: "image/webp", extension: "webp", default_quality: 80 },
+	avif: { content_type: "image/avif", extension: "avif", default_quality: 50 },
+};
+
+export const DEFAULT_FORMAT: image_format = "jpeg";
+
+// Formats served to clients that explicitly accept them, best first
+const NEGOTIATED_FORMATS: image_format[] = ["avif", "webp"];
+
+export function is_image_format(value: string): value is image_format {
+	return Object.hasOwn(OUTPUT_FORMATS, value);
+}
+
+// Pick the best format the client lists in Accept (wildcards don't count,
+// crawlers send */* and should keep getting JPEG)
+export function negotiate_format(accept: string | undefined): image_format {
+	const accepted = (accept || "")
+		.split(",")
+		.map((part) => part.split(";"))
+		.filter(([, ...q]) => !q.some((p) => /^\s*q=0(\.0*)?\s*$/.test(p)))
+		.map(([type]) => type.trim().toLowerCase());
+
+	return (
+		NEGOTIATED_FORMATS.find((format) =>
+			accepted.includes(OUTPUT_FORMATS[format].content_type)
+		) || DEFAULT_FORMAT
+	);
+}
+
+// Playwright only screenshots PNG/JPEG, so WebP/AVIF are encoded from a PNG
+export async function encode_image(
+	png_buffer: Buffer,
+	format: "webp" | "avif",
+	quality?: number
+): Promise<Buffer> {
+	const image = sharp(png_buffer);
+	const encoded =
+		format === "webp"
+			? image.webp({ quality: quality ?? OUTPUT_FORMATS.webp.default_quality })
+			: image.avif({ quality: quality ?? OUTPUT_FORMATS.avif.default_quality });
+	return encoded.toBuffer();
+}
@@ -1,7 +1,34 @@
-import { Browser, chromium } from "playwright";
-import { image_generation_options } from "../types/og-params";
+import {
+	image_generation_options,
+	rendered_image,
+	text_fit_result,
+} from "../types/og-params";
+import { render_queue_error, shared_browser_pool } from "./browser-pool";
+import { circuit_breaker } from "./circuit-breaker";
+import { encode_image } from "./image-format";
+import { log } from "./logger";
+import { render_duration } from "./metrics";
+import { fit_text } from "./text-fit";
+
+// Circuit breaker configuration
+export const CIRCUIT_BREAKER_THRESHOLD =
+	Number(process.env.CIRCUIT_BREAKER_THRESHOLD) || 5; // Failed renders in a row that open it
+export const CIRCUIT_BREAKER_COOLDOWN_MS =
+	Number(process.env.CIRCUIT_BREAKER_COOLDOWN_MS) || 30000; // Fail fast this long before retrying
+
+// Shared by every image_generator, so a crashing or hung Chromium stops taking
+// renders (and their slot wait) until a trial render succeeds
+export const render_circuit = new circuit_breaker({
+	name: "Render",
+	failure_threshold: CIRCUIT_BREAKER_THRESHOLD,
+	cooldown_ms: CIRCUIT_BREAKER_COOLDOWN_MS,
+	// A full queue means busy, not broken
+	is_failure: (error) => !(error instanceof render_queue_error),
+});
 
 export class image_generator {
+	private shutdown_hooks: Array<() => Promise<void>> = [];
+
 	public async generate_image(
 		html_content: string,
 		options: image_generation_options = {
@@ -10,77 +37,99 @@ export class image_generator {
 			device_scale_factor: 2,
 			format: "png",
 		}
-	): Promise<Buffer> {
-		let browser: Browser | null = null;
-
-		try {
-			const launch_options: any = {
-				headless: true,
-				args: [
-					"--no-sandbox",
-					"--disable-setuid-sandbox",
-					"--disable-dev-shm-usage",
-				],
-			};
+	): Promise<rendered_image> {
+		return render_circuit.run(() => this.render(html_content, options));
+	}
 
-			console.log("Launching Playwright Chromium browser from image...");
-			browser = await chromium.launch(launch_options);
-			const page = await browser.newPage();
+	private async render(
+		html_content: string,
+		options: image_generation_options
+	): Promise<rendered_image> {
+		let text_fit: text_fit_result | undefined;
 
-			try {
-				await page.setViewportSize({
-					width: options.width,
-					height: options.height,
-				});
+		// Render in an isolated context on the long-lived pooled browser
+		const screenshot = await shared_browser_pool.with_page(
+			{
+				viewport: { width: options.width, height: options.height },
+				deviceScaleFactor: options.device_scale_factor,
+			},
+			async (page) => {
+				// Fonts and images are inlined, so the page gets no network access
+				await page.route("**/*", (route) => route.abort("blockedbyclient"));
 
-				// Set content and wait for fonts and images to load
-				await page.setContent(html_content, {
-					waitUntil: "networkidle",
+				// Wait for load and then for the inlined fonts to be ready
+				await render_duration.time({ phase: "set_content" }, async () => {
+					await page.setContent(html_content, { waitUntil: "load" });
+					await page.evaluate("document.fonts.ready.then(() => undefined)");
 				});
 
-				// Wait a bit more for fonts to render properly
-				await new Promise((resolve) => setTimeout(resolve, 1000));
+				// Size the title to its box now that the real fonts are measurable
+				const bounds = options.text_fit;
+				if (bounds) {
+					text_fit =
+						(await render_duration.time({ phase: "text_fit" }, () =>
+							fit_text(page, bounds)
+						)) ?? undefined;
+				}
 
-				// Take screenshot
-				const screenshot = await page.screenshot({
-					type: options.format,
-					quality:
-						options.format === "jpeg" ? options.quality || 90 : undefined,
-					fullPage: false,
-					clip: {
-						x: 0,
-						y: 0,
-						width: options.width,
-						height: options.height,
-					},
-				});
-
-				return screenshot;
-			} finally {
-				await page.close().catch(() => {}); // Ignore close errors
-			}
-		} finally {
-			if (browser) {
-				await browser.close().catch(() => {}); // Always close browser
+				// Take screenshot (WebP/AVIF are encoded from a lossless PNG)
+				return await render_duration.time({ phase: "screenshot" }, () =>
+					page.screenshot({
+						type: options.format === "jpeg" ? "jpeg" : "png",
+						quality:
+							options.format === "jpeg" ? options.quality || 90 : undefined,
+						fullPage: false,
+						clip: {
+							x: 0,
+							y: 0,
+							width: options.width,
+							height: options.height,
+						},
+					})
+				);
 			}
+		);
+
+		if (options.format === "webp" || options.format === "avif") {
+			const format = options.format;
+			const buffer = await render_duration.time({ phase: "encode" }, () =>
+				encode_image(screenshot, format, options.quality)
+			);
+			return { buffer, text_fit };
 		}
+
+		return { buffer: screenshot, text_fit };
 	}
 
 	public async close(): Promise<void> {
-		// No longer needed - each request creates its own browser instance
+		await shared_browser_pool.close();
+	}
+
+	// Run on SIGINT/SIGTERM after the browser pool closes, before exiting
+	public on_shutdown(hook: () => Promise<void>): void {
+		this.shutdown_hooks.push(hook);
 	}
 
 	// Graceful shutdown handler
 	public setup_shutdown_handlers(): void {
 		const shutdown = async () => {
-			console.log("Shutting down image generator...");
+			log.info("Shutting down image generator");
+			await this.close().catch((error) =>
+				log.error("Failed to close browser pool", { error })
+			);
+			for (const hook of this.shutdown_hooks) {
+				await hook().catch((error) =>
+					log.error("Shutdown hook failed", { error })
+				);
+			}
 			process.exit(0);
 		};
 
 		process.on("SIGINT", shutdown);
 		process.on("SIGTERM", shutdown);
 		process.on("uncaughtException", async (error) => {
-			console.error("Uncaught exception:", error);
+			log.error("Uncaught exception", { error });
+			await this.close().catch(() => {});
 			process.exit(1);
 		});
 	}
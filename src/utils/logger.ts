@@ -0,0 +1,108 @@
+// Structured logging: one JSON object per line (or key=value text for local
+// development), filtered by LOG_LEVEL
+export type log_level = "debug" | "info" | "warn" | "error";
+export type log_format = "json" | "pretty";
+export type log_fields = Record<string, unknown>;
+
+const LOG_LEVELS: Record<log_level, number> = {
+	debug: 10,
+	info: 20,
+	warn: 30,
+	error: 40,
+};
+
+// Logging configuration
+export const LOG_LEVEL: log_level =
+	Object.hasOwn(LOG_LEVELS, process.env.LOG_LEVEL || "")
+		? (process.env.LOG_LEVEL as log_level)
+		: "info"; // debug, info, warn or error
+export const LOG_FORMAT: log_format =
+	process.env.LOG_FORMAT === "pretty" ? "pretty" : "json"; // json or pretty
+
+// Errors don't survive JSON.stringify, so keep what's useful for debugging
+function serialise_value(value: unknown): unknown {
+	if (value instanceof Error) {
+		return { name: value.name, message: value.message, stack: value.stack };
+	}
+	return value;
+}
+
+function format_pretty(entry: log_fields): string {
+	const { time, level, msg, ...fields } = entry;
+	const stacks: string[] = [];
+	const pairs = Object.entries(fields).map(([key, value]) => {
+		// Errors print their message inline and their stack underneath
+		const { message, stack } = (value || {}) as {
+			message?: unknown;
+			stack?: unknown;
+		};
+		if (typeof stack === "string") {
+			stacks.push(stack);
+			return `${key}=${JSON.stringify(message)}`;
+		}
+		const text = typeof value === "string" ? value : JSON.stringify(value);
+		return `${key}=${text}`;
+	});
+	return [
+		`${time} ${String(level).toUpperCase().padEnd(5)} ${msg}`,
+		...pairs,
+	]
+		.join(" ")
+		.concat(stacks.map((stack) => `\n${stack}`).join(""));
+}
+
+export class logger {
+	constructor(private readonly bindings: log_fields = {}) {}
+
+	// Logger that adds these fields to every line, e.g. a request ID
+	public child(fields: log_fields): logger {
+		return new logger({ ...this.bindings, ...fields });
+	}
+
+	public debug(message: string, fields?: log_fields): void {
+		this.write("debug", message, fields);
+	}
+
+	public info(message: string, fields?: log_fields): void {
+		this.write("info", message, fields);
+	}
+
+	public warn(message: string, fields?: log_fields): void {
+		this.write("warn", message, fields);
+	}
+
+	public error(message: string, fields?: log_fields): void {
+		this.write("error", message, fields);
+	}
+
+	public write(level: log_level, message: string, fields?: log_fields): void {
+		if (LOG_LEVELS[level] < LOG_LEVELS[LOG_LEVEL]) {
+			return;
+		}
+
+		const entry: log_fields = {
+			time: new Date().toISOString(),
+			level,
+			msg: message,
+		};
+		for (const [key, value] of Object.entries({
+			...this.bindings,
+			...fields,
+		})) {
+			if (value !== undefined) {
+				entry[key] = serialise_value(value);
+			}
+		}
+
+		const line =
+			LOG_FORMAT === "pretty" ? format_pretty(entry) : JSON.stringify(entry);
+		if (level === "error" || level === "warn") {
+			console.error(line);
+		} else {
+			console.log(line);
+		}
+	}
+}
+
+// Process-wide logger for startup, background jobs and cache tiers
+export const log = new logger();
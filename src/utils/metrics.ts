@@ -0,0 +1,245 @@
+import { log } from "./logger";
+
+// Minimal Prometheus text-format metrics (counters, gauges and histograms)
+// served from /metrics
+
+type metric_labels = Record<string, string>;
+
+// Render duration buckets in seconds, from a warm setContent up to a cold
+// Chromium launch
+const DEFAULT_BUCKETS = [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+function escape_label_value(value: string): string {
+	return value
+		.replace(/\\/g, "\\\\")
+		.replace(/\n/g, "\\n")
+		.replace(/"/g, '\\"');
+}
+
+// Stable series id (and exposition text) for a set of labels
+function format_labels(labels: metric_labels): string {
+	const pairs = Object.keys(labels)
+		.sort()
+		.map((name) => `${name}="${escape_label_value(labels[name])}"`);
+	return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+abstract class metric {
+	constructor(
+		public readonly name: string,
+		public readonly help: string,
+		public readonly type: "counter" | "gauge" | "histogram"
+	) {}
+
+	public abstract collect(): string[];
+
+	public render(): string {
+		return [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} ${this.type}`,
+			...this.collect(),
+		].join("\n");
+	}
+}
+
+export class counter extends metric {
+	private values = new Map<string, number>();
+
+	constructor(name: string, help: string) {
+		super(name, help, "counter");
+	}
+
+	public inc(labels: metric_labels = {}, value: number = 1): void {
+		const key = format_labels(labels);
+		this.values.set(key, (this.values.get(key) || 0) + value);
+	}
+
+	public collect(): string[] {
+		return Array.from(
+			this.values,
+			([labels, value]) => `${this.name}${labels} ${value}`
+		);
+	}
+}
+
+export class gauge extends metric {
+	private values = new Map<string, number>();
+
+	constructor(name: string, help: string) {
+		super(name, help, "gauge");
+	}
+
+	public set(labels: metric_labels, value: number): void {
+		this.values.set(format_labels(labels), value);
+	}
+
+	public reset(): void {
+		this.values.clear();
+	}
+
+	public collect(): string[] {
+		return Array.from(
+			this.values,
+			([labels, value]) => `${this.name}${labels} ${value}`
+		);
+	}
+}
+
+interface histogram_series {
+	labels: metric_labels;
+	counts: number[]; // Per bucket, not cumulative
+	sum: number;
+	count: number;
+}
+
+export class histogram extends metric {
+	private series = new Map<string, histogram_series>();
+
+	constructor(
+		name: string,
+		help: string,
+		private readonly buckets: number[] = DEFAULT_BUCKETS
+	) {
+		super(name, help, "histogram");
+	}
+
+	public observe(labels: metric_labels, value: number): void {
+		const key = format_labels(labels);
+		let series = this.series.get(key);
+		if (!series) {
+			series = {
+				labels,
+				counts: this.buckets.map(() => 0),
+				sum: 0,
+				count: 0,
+			};
+			this.series.set(key, series);
+		}
+
+		const bucket = this.buckets.findIndex((bound) => value <= bound);
+		if (bucket !== -1) {
+			series.counts[bucket]++;
+		}
+		series.sum += value;
+		series.count++;
+	}
+
+	// Time an async task, observing its duration in seconds even if it throws
+	public async time<T>(
+		labels: metric_labels,
+		task: () => Promise<T>
+	): Promise<T> {
+		const start = process.hrtime.bigint();
+		try {
+			return await task();
+		} finally {
+			this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+		}
+	}
+
+	public collect(): string[] {
+		const lines: string[] = [];
+		for (const { labels, counts, sum, count } of this.series.values()) {
+			let cumulative = 0;
+			this.buckets.forEach((bound, index) => {
+				cumulative += counts[index];
+				lines.push(
+					`${this.name}_bucket${format_labels({
+						...labels,
+						le: String(bound),
+					})} ${cumulative}`
+				);
+			});
+			lines.push(
+				`${this.name}_bucket${format_labels({ ...labels, le: "+Inf" })} ${count}`,
+				`${this.name}_sum${format_labels(labels)} ${sum}`,
+				`${this.name}_count${format_labels(labels)} ${count}`
+			);
+		}
+		return lines;
+	}
+}
+
+// Requests and rejections
+export const http_requests = new counter(
+	"og_http_requests_total",
+	"Image requests by method, HTTP status and cache source"
+);
+export const rate_limit_rejections = new counter(
+	"og_rate_limit_rejections_total",
+	"Requests rejected by the rate limiter"
+);
+export const unauthorized_requests = new counter(
+	"og_unauthorized_requests_total",
+	"Image requests from origins outside ALLOWED_ORIGINS (served with a short TTL)"
+);
+
+// Rendering
+export const render_duration = new histogram(
+	"og_render_duration_seconds",
+	"Render time by phase (browser_launch, set_content, text_fit, screenshot, encode)"
+);
+export const renders_coalesced = new counter(
+	"og_renders_coalesced_total",
+	"Renders saved by sharing another request's render of the same key"
+);
+export const renders_in_flight = new gauge(
+	"og_renders_in_flight",
+	"Renders holding a browser slot (active) or waiting for one (queued)"
+);
+export const render_circuit_state = new gauge(
+	"og_render_circuit_state",
+	"1 for the render circuit breaker's current state (closed, open, half_open)"
+);
+export const fallback_responses = new counter(
+	"og_fallback_responses_total",
+	"Fallback images served after a failed render, by reason"
+);
+export const cache_revalidations = new counter(
+	"og_cache_revalidations_total",
+	"Background re-renders of stale cache entries, by result"
+);
+
+// Cache, sampled at scrape time
+export const cache_entries = new gauge(
+	"og_cache_entries",
+	"Cached images per tier"
+);
+export const cache_bytes = new gauge(
+	"og_cache_bytes",
+	"Cached image bytes per tier (0 where the tier can't report it cheaply)"
+);
+
+const metrics: metric[] = [
+	http_requests,
+	rate_limit_rejections,
+	unauthorized_requests,
+	render_duration,
+	renders_coalesced,
+	renders_in_flight,
+	render_circuit_state,
+	fallback_responses,
+	cache_revalidations,
+	cache_entries,
+	cache_bytes,
+];
+
+// Refresh gauges just before a scrape
+const collectors: Array<() => Promise<void> | void> = [];
+
+export function register_collector(collect: () => Promise<void> | void): void {
+	collectors.push(collect);
+}
+
+export async function render_metrics(): Promise<string> {
+	await Promise.all(
+		collectors.map(async (collect) => {
+			try {
+				await collect();
+			} catch (error) {
+				log.error("Metrics collector failed", { error });
+			}
+		})
+	);
+	return `${metrics.map((m) => m.render()).join("\n")}\n`;
+}
@@ -0,0 +1,85 @@
+import { og_params, rendered_image } from "../types/og-params";
+import {
+	DEFAULT_FONT,
+	get_fallback_font_css,
+	get_font_css_variables,
+	get_font_face_css,
+} from "./font-registry";
+import { DEFAULT_FORMAT } from "./image-format";
+import { image_generator } from "./image-generator";
+import { resolve_remote_images } from "./remote-images";
+import {
+	DEFAULT_SIZE_PRESET,
+	get_dimension_css_variables,
+	SIZE_PRESETS,
+} from "./size-presets";
+import { template_renderer } from "./template-renderer";
+import { DEFAULT_TEMPLATE, get_template_definition } from "./template-registry";
+import { DEFAULT_THEME, resolve_palette } from "./theme-registry";
+
+const template_renderer_instance = new template_renderer();
+const image_generator_instance = new image_generator();
+
+// Resolve size defaults for params that didn't set them
+function get_dimensions(params: og_params) {
+	const preset = SIZE_PRESETS[DEFAULT_SIZE_PRESET];
+	return {
+		width: params.width || preset.width,
+		height: params.height || preset.height,
+		scale: params.scale || 1,
+	};
+}
+
+// Render validated params into the selected template's HTML. Remote images
+// are inlined as data URIs, since the page itself has no network access
+export async function render_og_html(params: og_params): Promise<string> {
+	const font = params.font || DEFAULT_FONT;
+	const { palette, css_variables: colour_variables } = resolve_palette(
+		params.theme || DEFAULT_THEME,
+		params.colours
+	);
+	const images = await resolve_remote_images(params.images);
+
+	return template_renderer_instance.render_template(
+		params.template || DEFAULT_TEMPLATE,
+		{
+			...params.fields,
+			...images,
+			title: params.title,
+			author: params.author || "",
+			website: params.website || "",
+			theme: palette.base,
+			theme_name: params.theme || DEFAULT_THEME,
+			background_colour: palette.background,
+			text_colour: palette.text,
+			accent_colour: palette.accent,
+		},
+		{
+			css: [get_font_face_css(font), get_fallback_font_css()].join("\n"),
+			css_variables: {
+				...get_dimension_css_variables(get_dimensions(params)),
+				...get_font_css_variables(font),
+				...colour_variables,
+			},
+		}
+	);
+}
+
+// Render validated params all the way to an image buffer
+export async function render_og_image(
+	params: og_params
+): Promise<rendered_image> {
+	const dimensions = get_dimensions(params);
+
+	const html_content = await render_og_html(params);
+
+	return image_generator_instance.generate_image(html_content, {
+		width: dimensions.width,
+		height: dimensions.height,
+		device_scale_factor: dimensions.scale,
+		format: params.format || DEFAULT_FORMAT,
+		quality: params.quality,
+		text_fit: get_template_definition(params.template || DEFAULT_TEMPLATE)
+			?.text_fit,
+	});
+}
@@ -0,0 +1,292 @@
+import {
+	colour_overrides,
+	image_format,
+	og_params,
+	remote_image_urls,
+} from "../types/og-params";
+import { DEFAULT_FONT, get_font, list_fonts } from "./font-registry";
+import { is_image_format, OUTPUT_FORMATS } from "./image-format";
+import { flatten_og_body, og_input, to_body_errors } from "./og-request-body";
+import { REMOTE_IMAGE_FIELDS, validate_remote_image_url } from "./remote-images";
+import { resolve_dimensions } from "./size-presets";
+import {
+	CORE_FIELDS,
+	DEFAULT_TEMPLATE,
+	get_template_definition,
+	list_templates,
+	template_definition,
+} from "./template-registry";
+import { count_graphemes } from "./text-script";
+import {
+	DEFAULT_THEME,
+	get_theme,
+	list_themes,
+	parse_hex_colour,
+} from "./theme-registry";
+
+const MAX_FIELD_LENGTH = 200;
+const MAX_LIST_ITEMS = 20;
+const MAX_TITLE_LENGTH = 200;
+const MAX_BODY_TITLE_LENGTH = 500; // POST bodies aren't squeezed into a URL
+
+export interface og_validation {
+	valid: boolean;
+	params?: og_params;
+	error?: string; // First problem, for simple clients
+	errors?: Record<string, string>; // Every invalid field
+}
+
+function as_text(value: string | string[] | undefined): string | undefined {
+	return typeof value === "string" ? value : undefined;
+}
+
+// Pick up the extra fields a template declares (date, reading_time, tags[] ...)
+export function collect_template_fields(
+	definition: template_definition,
+	query: og_input
+): {
+	fields: Record<string, string | string[]>;
+	errors: Record<string, string>;
+} {
+	const fields: Record<string, string | string[]> = {};
+	const errors: Record<string, string> = {};
+
+	for (const name of definition.fields) {
+		const raw = query[name];
+		if (CORE_FIELDS.includes(name) || raw === undefined) {
+			continue;
+		}
+
+		if (definition.list_fields.includes(name)) {
+			const items = (Array.isArray(raw) ? raw : raw.split(","))
+				.map((item) => item.trim())
+				.filter(Boolean);
+			if (items.length > MAX_LIST_ITEMS) {
+				errors[name] = `${name} must have ${MAX_LIST_ITEMS} items or less`;
+			} else if (
+				items.some((item) => count_graphemes(item) > MAX_FIELD_LENGTH)
+			) {
+				errors[name] =
+					`Each ${name} item must be ${MAX_FIELD_LENGTH} characters or less`;
+			} else if (items.length) {
+				fields[name] = items;
+			}
+		} else if (Array.isArray(raw)) {
+			errors[name] = `${name} must be a single value, not a list`;
+		} else {
+			const value = raw.trim();
+			if (count_graphemes(value) > MAX_FIELD_LENGTH) {
+				errors[name] = `${name} must be ${MAX_FIELD_LENGTH} characters or less`;
+			} else if (value) {
+				fields[name] = value;
+			}
+		}
+	}
+
+	return { fields, errors };
+}
+
+// ?bg=, ?text= and ?accent= brand colour overrides (hex, "#" optional)
+export function parse_colour_overrides(query: og_input): {
+	colours?: colour_overrides;
+	errors: Record<string, string>;
+} {
+	const colours: colour_overrides = {};
+	const errors: Record<string, string> = {};
+	const params = { bg: "background", text: "text", accent: "accent" } as const;
+
+	for (const [param, name] of Object.entries(params)) {
+		const value = as_text(query[param]);
+		if (!value) {
+			continue;
+		}
+		const colour = parse_hex_colour(value);
+		if (colour) {
+			colours[name] = colour;
+		} else {
+			errors[param] = `${param} must be a hex colour like 1e293b or #1e293b`;
+		}
+	}
+
+	return {
+		colours: Object.keys(colours).length ? colours : undefined,
+		errors,
+	};
+}
+
+// ?avatar=, ?logo= and ?background= image URLs the template accepts
+export function parse_remote_images(
+	definition: template_definition,
+	query: og_input
+): { images?: remote_image_urls; errors: Record<string, string> } {
+	const images: remote_image_urls = {};
+	const errors: Record<string, string> = {};
+
+	for (const name of REMOTE_IMAGE_FIELDS) {
+		const value = as_text(query[name])?.trim();
+		if (!value || !definition.fields.includes(name)) {
+			continue;
+		}
+		const { url, error } = validate_remote_image_url(name, value);
+		if (url) {
+			images[name] = url;
+		} else if (error) {
+			errors[name] = error;
+		}
+	}
+
+	return {
+		images: Object.keys(images).length ? images : undefined,
+		errors,
+	};
+}
+
+// Validate GET query or flattened POST body input, collecting every problem
+export function validate_og_params(
+	query: og_input,
+	max_title_length: number = MAX_TITLE_LENGTH
+): og_validation {
+	const errors: Record<string, string> = {};
+	const title = as_text(query.title)?.trim();
+	const author = as_text(query.author);
+	const website = as_text(query.website);
+	const theme = as_text(query.theme);
+	const format = as_text(query.format);
+	const quality = as_text(query.quality);
+	const font = as_text(query.font)?.trim() || DEFAULT_FONT;
+	const template = as_text(query.template)?.trim() || DEFAULT_TEMPLATE;
+
+	const definition = get_template_definition(template);
+	if (!definition) {
+		errors.template = `Template must be one of: ${list_templates()
+			.map((t) => t.name)
+			.join(", ")}`;
+	}
+
+	// Lengths count graphemes, so an emoji or accented letter is one character
+	if (!title) {
+		errors.title = "Title is required and must be a non-empty string";
+	} else if (count_graphemes(title) > max_title_length) {
+		errors.title = `Title must be ${max_title_length} characters or less`;
+	}
+
+	if (author && count_graphemes(author) > 100) {
+		errors.author = "Author must be a string of 100 characters or less";
+	}
+
+	if (website && count_graphemes(website) > 100) {
+		errors.website = "Website must be a string of 100 characters or less";
+	}
+
+	if (theme && !get_theme(theme)) {
+		errors.theme = `Theme must be one of: ${list_themes().join(", ")}`;
+	}
+
+	const { colours, errors: colour_errors } = parse_colour_overrides(query);
+	Object.assign(errors, colour_errors);
+
+	if (format && !is_image_format(format)) {
+		errors.format = `Format must be one of: ${Object.keys(OUTPUT_FORMATS).join(
+			", "
+		)}`;
+	}
+
+	const {
+		dimensions,
+		field: dimensions_field,
+		error: dimensions_error,
+	} = resolve_dimensions({
+		size: as_text(query.size),
+		width: as_text(query.width),
+		height: as_text(query.height),
+		scale: as_text(query.scale),
+	});
+	if (!dimensions) {
+		errors[dimensions_field || "size"] = dimensions_error || "Invalid size";
+	}
+
+	if (!get_font(font)) {
+		errors.font = `Font must be one of: ${list_fonts()
+			.map((f) => f.id)
+			.join(", ")}`;
+	}
+
+	const quality_value = quality ? Number(quality) : undefined;
+	if (
+		quality_value !== undefined &&
+		(!Number.isInteger(quality_value) ||
+			quality_value < 1 ||
+			quality_value > 100)
+	) {
+		errors.quality = "Quality must be an integer between 1 and 100";
+	}
+
+	// Template-specific fields can only be checked against a known template
+	const extra = definition
+		? collect_template_fields(definition, query)
+		: { fields: {}, errors: {} };
+	Object.assign(errors, extra.errors);
+
+	const { images, errors: images_errors } = definition
+		? parse_remote_images(definition, query)
+		: { images: undefined, errors: {} };
+	Object.assign(errors, images_errors);
+
+	if (Object.keys(errors).length > 0 || !definition || !dimensions || !title) {
+		return { valid: false, error: Object.values(errors)[0], errors };
+	}
+
+	// Fields the template doesn't accept are dropped so they can't split the cache
+	const accepts = (field: string) => definition.fields.includes(field);
+
+	return {
+		valid: true,
+		params: {
+			title,
+			author: accepts("author") ? author?.trim() || "Anonymous" : undefined,
+			website: accepts("website")
+				? website?.trim() || "example.com"
+				: undefined,
+			theme: accepts("theme") ? theme || DEFAULT_THEME : undefined,
+			colours: accepts("theme") ? colours : undefined,
+			template,
+			format: format as image_format | undefined,
+			quality: quality_value,
+			width: dimensions.width,
+			height: dimensions.height,
+			scale: dimensions.scale,
+			font,
+			images,
+			fields: extra.fields,
+		},
+	};
+}
+
+// Validate a POST /og style JSON body, with errors keyed by body path
+export function validate_og_body(body: unknown): og_validation {
+	const { input, errors: body_errors } = flatten_og_body(body);
+	const validation = validate_og_params(input, MAX_BODY_TITLE_LENGTH);
+	const errors = {
+		...body_errors,
+		...to_body_errors(validation.errors || {}),
+	};
+
+	if (!validation.valid || Object.keys(errors).length > 0) {
+		return { valid: false, error: Object.values(errors)[0], errors };
+	}
+	return validation;
+}
+
+// Fill in the output format and its default quality once it's decided
+export function apply_output_format(
+	params: og_params,
+	format: image_format
+): og_params {
+	const default_quality = OUTPUT_FORMATS[format].default_quality;
+	params.format = format;
+	params.quality =
+		default_quality === undefined
+			? undefined // Lossless PNG ignores quality
+			: params.quality ?? default_quality;
+	return params;
+}
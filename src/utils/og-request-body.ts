@@ -0,0 +1,155 @@
+import { Context } from "hono";
+import { bodyLimit } from "hono/body-limit";
+import { CORE_FIELDS } from "./template-registry";
+
+export const MAX_OG_BODY_BYTES =
+	Number(process.env.OG_BODY_MAX_BYTES) || 64 * 1024; // POST /og JSON body cap
+
+// Applied before signature checks, which hash the body
+export const og_body_limit = bodyLimit({
+	maxSize: MAX_OG_BODY_BYTES,
+	onError: (c: Context) =>
+		c.json({ error: `Body must be ${MAX_OG_BODY_BYTES} bytes or less` }, 413),
+});
+
+// Flat query-style input shared by GET /og and POST /og validation. List
+// fields may arrive pre-split from JSON instead of comma-separated
+export type og_input = Record<string, string | string[] | undefined>;
+
+// Top-level scalar properties of a POST /og body, same names as the query
+const BODY_SCALAR_FIELDS = [
+	"title",
+	"author",
+	"website",
+	"theme",
+	"template",
+	"format",
+	"quality",
+	"font",
+	"size",
+	"width",
+	"height",
+	"scale",
+];
+
+// Nested body objects and the query parameter each property maps to
+const BODY_GROUPS: Record<string, Record<string, string>> = {
+	colours: { background: "bg", text: "text", accent: "accent" },
+	images: { avatar: "avatar", logo: "logo", background: "background" },
+};
+
+// Query parameter -> body path, for reporting errors against the body
+const BODY_PATHS: Record<string, string> = Object.fromEntries(
+	Object.entries(BODY_GROUPS).flatMap(([group, properties]) =>
+		Object.entries(properties).map(([property, param]) => [
+			param,
+			`${group}.${property}`,
+		])
+	)
+);
+
+// Names a custom template field can't take, since they'd shadow a parameter
+const RESERVED_FIELDS = new Set([
+	...CORE_FIELDS,
+	...BODY_SCALAR_FIELDS,
+	...Object.keys(BODY_PATHS),
+]);
+
+function is_plain_object(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function to_text(value: unknown): string | undefined {
+	if (typeof value === "string") {
+		return value;
+	}
+	if (typeof value === "number" && Number.isFinite(value)) {
+		return String(value);
+	}
+	return undefined;
+}
+
+// Turn a JSON body into og_input, collecting type errors by body path
+export function flatten_og_body(body: unknown): {
+	input: og_input;
+	errors: Record<string, string>;
+} {
+	const input: og_input = {};
+	const errors: Record<string, string> = {};
+
+	if (!is_plain_object(body)) {
+		return { input, errors: { body: "Body must be a JSON object" } };
+	}
+
+	for (const [key, value] of Object.entries(body)) {
+		if (value === undefined || value === null) {
+			continue;
+		}
+
+		if (BODY_SCALAR_FIELDS.includes(key)) {
+			const text = to_text(value);
+			if (text === undefined) {
+				errors[key] = `${key} must be a string or number`;
+			} else {
+				input[key] = text;
+			}
+		} else if (Object.hasOwn(BODY_GROUPS, key)) {
+			if (!is_plain_object(value)) {
+				errors[key] = `${key} must be an object`;
+				continue;
+			}
+			const properties = BODY_GROUPS[key];
+			for (const [property, item] of Object.entries(value)) {
+				const path = `${key}.${property}`;
+				if (!Object.hasOwn(properties, property)) {
+					errors[path] = `Unknown property, expected one of: ${Object.keys(
+						properties
+					).join(", ")}`;
+				} else if (typeof item !== "string") {
+					errors[path] = `${path} must be a string`;
+				} else {
+					input[properties[property]] = item;
+				}
+			}
+		} else if (key === "fields") {
+			if (!is_plain_object(value)) {
+				errors.fields = "fields must be an object";
+				continue;
+			}
+			for (const [name, item] of Object.entries(value)) {
+				const path = `fields.${name}`;
+				const items = Array.isArray(item) ? item.map(to_text) : null;
+				if (RESERVED_FIELDS.has(name)) {
+					errors[path] = `${name} is a top-level property, not a template field`;
+				} else if (items) {
+					if (items.some((text) => text === undefined)) {
+						errors[path] = `${path} must be an array of strings`;
+					} else {
+						input[name] = items as string[];
+					}
+				} else if (to_text(item) === undefined) {
+					errors[path] = `${path} must be a string or an array of strings`;
+				} else {
+					input[name] = to_text(item);
+				}
+			}
+		} else {
+			errors[key] = "Unknown property";
+		}
+	}
+
+	return { input, errors };
+}
+
+// Report validation errors (keyed by query parameter) against body paths
+export function to_body_errors(
+	errors: Record<string, string>
+): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(errors).map(([param, message]) => [
+			BODY_PATHS[param] ||
+				(BODY_SCALAR_FIELDS.includes(param) ? param : `fields.${param}`),
+			message,
+		])
+	);
+}
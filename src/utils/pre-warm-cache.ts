@@ -1,80 +1,115 @@
-import { cache_image, get_cached_image } from "./cache-manager";
-import { image_generator } from "./image-generator";
-import { template_renderer } from "./template-renderer";
+import * as fs from "fs";
+import * as path from "path";
+import { run_batch } from "./batch-generator";
+import { log } from "./logger";
+import {
+	load_source_items,
+	pre_warm_source,
+	validate_pre_warm_source,
+} from "./pre-warm-sources";
 
-// Pre-warm cache with popular posts
-export async function pre_warm_cache() {
-	try {
-		console.log("🔥 Pre-warming cache with popular posts...");
+export const PRE_WARM_CONFIG =
+	process.env.PRE_WARM_CONFIG ||
+	path.join(process.cwd(), "config", "pre-warm.json");
+
+interface pre_warm_config {
+	interval_minutes: number; // 0 = only at startup
+	sources: pre_warm_source[];
+}
+
+let running = false;
 
-		// Fetch popular posts from scottspence.com
-		const response = await fetch(
-			"https://scottspence.com/api/fetch-popular-posts"
-		);
-		if (!response.ok) {
-			console.log("❌ Failed to fetch popular posts, skipping pre-warm");
-			return;
+// Read config/pre-warm.json, skipping sources that can't work
+export function load_pre_warm_config(): pre_warm_config | null {
+	let config: Partial<pre_warm_config>;
+	try {
+		config = JSON.parse(fs.readFileSync(PRE_WARM_CONFIG, "utf-8"));
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+			log.error("Could not load pre-warm config", { error });
 		}
+		return null;
+	}
 
-		const popular_posts = (await response.json()) as {
-			daily?: any[];
-			monthly?: any[];
-			yearly?: any[];
-		};
-		const all_posts = [
-			...(popular_posts.daily || []).slice(0, 5),
-			...(popular_posts.monthly || []).slice(0, 5),
-			...(popular_posts.yearly || []).slice(0, 5),
-		];
+	const sources = (Array.isArray(config.sources) ? config.sources : [])
+		.map((source, index) => ({
+			...source,
+			name: source?.name || `${source?.type}-${index}`,
+		}))
+		.filter((source) => {
+			const problem = validate_pre_warm_source(source);
+			if (problem) {
+				log.warn(`Pre-warm source ${problem}, skipping`, {
+					source: source.name,
+				});
+			}
+			return !problem;
+		});
 
-		// Convert popular posts to OG image params
-		const images_to_warm = all_posts.map((post: any) => ({
-			title: post.title,
-			author: "Scott Spence",
-			website: "scottspence.com",
-			theme: "light" as const,
-		}));
+	return {
+		interval_minutes: Number(config.interval_minutes) || 0,
+		sources,
+	};
+}
 
-		const template_renderer_instance = new template_renderer();
-		const image_generator_instance = new image_generator();
+// Render every configured source's images into the cache
+export async function pre_warm_cache() {
+	if (running) {
+		log.warn("Pre-warm still running, skipping this run");
+		return;
+	}
 
-		for (const params of images_to_warm) {
-			const cache_key = `${params.title}-${params.author}-${params.website}-${params.theme}`;
-			const cached = await get_cached_image(cache_key);
-			if (cached) {
-				console.log(`✅ Pre-warmed (${cached.source}): ${params.title}`);
-			} else {
-				// Generate and cache the image if it doesn't exist
-				try {
-					const html_content = template_renderer_instance.render_template(
-						"default",
-						{
-							title: params.title,
-							author: params.author,
-							website: params.website,
-							theme: params.theme,
-						}
-					);
-					const image_buffer = await image_generator_instance.generate_image(
-						html_content,
-						{
-							width: 1200,
-							height: 630,
-							device_scale_factor: 1,
-							format: "jpeg",
-							quality: 85,
-						}
-					);
-					await cache_image(cache_key, image_buffer, true);
-					console.log(`🔥 Generated and cached: ${params.title}`);
-				} catch (error) {
-					console.error(`❌ Failed to pre-warm ${params.title}:`, error);
+	const config = load_pre_warm_config();
+	if (!config || config.sources.length === 0) {
+		log.info("No pre-warm sources configured", { config: PRE_WARM_CONFIG });
+		return;
+	}
+
+	running = true;
+	try {
+		log.info("Pre-warming cache", { sources: config.sources.length });
+
+		for (const source of config.sources) {
+			// A broken source shouldn't stop the others
+			try {
+				const items = await load_source_items(source);
+				const report = await run_batch(items, { warm_cache: true });
+
+				for (const result of report.results) {
+					if (result.status === "failed") {
+						log.error("Failed to pre-warm item", {
+							source: source.name,
+							index: result.index,
+							error: result.error,
+						});
+					}
 				}
+
+				log.info("Pre-warmed source", {
+					source: source.name,
+					generated: report.generated,
+					cached: report.cached,
+					failed: report.failed,
+					duration_ms: report.duration_ms,
+				});
+			} catch (error) {
+				log.error("Pre-warm source failed", { source: source.name, error });
 			}
 		}
-
-		console.log(`🔥 Pre-warmed ${images_to_warm.length} images`);
 	} catch (error) {
-		console.error("❌ Error pre-warming cache:", error);
+		log.error("Error pre-warming cache", { error });
+	} finally {
+		running = false;
+	}
+}
+
+// Pre-warm shortly after startup, then every interval_minutes if set
+export function schedule_pre_warm(): void {
+	setTimeout(pre_warm_cache, 1000);
+
+	const interval_minutes = load_pre_warm_config()?.interval_minutes || 0;
+	if (interval_minutes > 0) {
+		setInterval(pre_warm_cache, interval_minutes * 60 * 1000).unref();
+		log.info("Pre-warm scheduled", { interval_minutes });
 	}
 }
@@ -0,0 +1,312 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { load_source_items } from "./pre-warm-sources";
+
+// Local stand-in for the sites sources are fetched from: path -> body, sent
+// chunked (no content-length) like most dynamic pages
+const pages: Record<string, string | (() => string)> = {};
+const requested: string[] = [];
+let server: Server;
+let base_url: string;
+
+before(async () => {
+	server = createServer((request, response) => {
+		requested.push(request.url || "");
+		const page = pages[request.url || ""];
+		if (page === undefined) {
+			response.writeHead(404).end();
+			return;
+		}
+		// write() before end() keeps Node from adding a content-length
+		response.writeHead(200);
+		response.write(typeof page === "function" ? page() : page);
+		response.end();
+	});
+	await new Promise<void>((resolve) => server.listen(0, resolve));
+	base_url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+	server.close();
+});
+
+describe("json sources", () => {
+	it("maps records from each items path onto nested body properties", async () => {
+		pages["/popular.json"] = JSON.stringify({
+			data: {
+				daily: [
+					{ title: "First", author: { name: "Ada" }, date: "2025-01-01" },
+				],
+				monthly: [{ title: "Second", author: { name: "Grace" } }],
+			},
+		});
+
+		const items = await load_source_items({
+			name: "popular",
+			type: "json",
+			url: `${base_url}/popular.json`,
+			items: ["data.daily", "data.monthly"],
+			map: { title: "title", author: "author.name", "fields.date": "date" },
+			defaults: { website: "example.com", fields: { tag: "blog" } },
+		});
+
+		assert.deepEqual(
+			items.map((item) => item.body),
+			[
+				{
+					website: "example.com",
+					title: "First",
+					author: "Ada",
+					fields: { tag: "blog", date: "2025-01-01" },
+				},
+				{
+					website: "example.com",
+					title: "Second",
+					author: "Grace",
+					fields: { tag: "blog" },
+				},
+			]
+		);
+	});
+
+	it("stops at the source limit", async () => {
+		pages["/many.json"] = JSON.stringify(
+			Array.from({ length: 10 }, (_, index) => ({ title: `Post ${index}` }))
+		);
+
+		const items = await load_source_items({
+			name: "many",
+			type: "json",
+			url: `${base_url}/many.json`,
+			limit: 3,
+		});
+
+		assert.deepEqual(
+			items.map((item) => item.body.title),
+			["Post 0", "Post 1", "Post 2"]
+		);
+	});
+
+	it("rejects an items path that isn't an array", async () => {
+		pages["/object.json"] = JSON.stringify({ posts: { title: "Nope" } });
+
+		await assert.rejects(
+			load_source_items({
+				name: "object",
+				type: "json",
+				url: `${base_url}/object.json`,
+				items: "posts",
+			}),
+			/"posts" is not an array/
+		);
+	});
+
+	it("rejects a document over the size cap without a content-length", async () => {
+		pages["/huge.json"] = () => `"${"x".repeat(5 * 1024 * 1024)}"`;
+
+		await assert.rejects(
+			load_source_items({
+				name: "huge",
+				type: "json",
+				url: `${base_url}/huge.json`,
+			}),
+			/is larger than 5242880 bytes/
+		);
+	});
+});
+
+describe("feed sources", () => {
+	it("reads RSS items, unwrapping CDATA and decoding entities", async () => {
+		pages["/rss.xml"] = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+	<channel>
+		<title>Blog</title>
+		<item>
+			<title><![CDATA[Tips & <Tricks>]]></title>
+			<dc:creator>Ada Lovelace</dc:creator>
+			<link>https://example.com/tips</link>
+			<pubDate>Wed, 01 Jan 2025 00:00:00 GMT</pubDate>
+		</item>
+		<item>
+			<title>Fish &amp; Chips</title>
+			<author>grace@example.com</author>
+		</item>
+	</channel>
+</rss>`;
+
+		const items = await load_source_items({
+			name: "rss",
+			type: "feed",
+			url: `${base_url}/rss.xml`,
+			map: { title: "title", author: "author", "fields.url": "link" },
+		});
+
+		assert.deepEqual(
+			items.map((item) => item.body),
+			[
+				{
+					title: "Tips & <Tricks>",
+					author: "Ada Lovelace",
+					fields: { url: "https://example.com/tips" },
+				},
+				{ title: "Fish & Chips", author: "grace@example.com" },
+			]
+		);
+	});
+
+	it("reads Atom entries with their author name and link", async () => {
+		pages["/atom.xml"] = `<?xml version="1.0"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+	<title>Blog</title>
+	<entry>
+		<title type="html">Hello &lt;World&gt;</title>
+		<author><name>Grace Hopper</name></author>
+		<link rel="alternate" href="https://example.com/hello"/>
+		<updated>2025-02-01T00:00:00Z</updated>
+	</entry>
+</feed>`;
+
+		const items = await load_source_items({
+			name: "atom",
+			type: "feed",
+			url: `${base_url}/atom.xml`,
+			map: {
+				title: "title",
+				author: "author",
+				"fields.url": "link",
+				"fields.date": "published",
+			},
+		});
+
+		assert.deepEqual(
+			items.map((item) => item.body),
+			[
+				{
+					title: "Hello <World>",
+					author: "Grace Hopper",
+					fields: {
+						url: "https://example.com/hello",
+						date: "2025-02-01T00:00:00Z",
+					},
+				},
+			]
+		);
+	});
+});
+
+describe("sitemap sources", () => {
+	it("follows a sitemap index and takes og:title, then <title>", async () => {
+		pages["/sitemap.xml"] = `<?xml version="1.0"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+	<sitemap><loc>${base_url}/sitemap-docs.xml</loc></sitemap>
+	<sitemap><loc>${base_url}/sitemap-missing.xml</loc></sitemap>
+	<sitemap><loc>${base_url}/sitemap-blog.xml</loc></sitemap>
+</sitemapindex>`;
+		pages["/sitemap-docs.xml"] = `<urlset>
+	<url><loc>${base_url}/docs/install</loc></url>
+	<url><loc>${base_url}/about</loc></url>
+</urlset>`;
+		pages["/sitemap-blog.xml"] = `<urlset>
+	<url><loc>${base_url}/docs/faq?a=1&amp;b=2</loc></url>
+</urlset>`;
+		pages["/docs/install"] = `<html><head>
+	<title>Install | Docs</title>
+	<meta content="Installing &amp; Upgrading" property="og:title">
+</head></html>`;
+		pages["/docs/faq?a=1&b=2"] =
+			"<html><head><title>FAQ</title></head></html>";
+
+		const items = await load_source_items({
+			name: "docs",
+			type: "sitemap",
+			url: `${base_url}/sitemap.xml`,
+			include: "/docs/",
+			map: { title: "title", "fields.url": "url" },
+		});
+
+		assert.deepEqual(
+			items.map((item) => item.body),
+			[
+				{
+					title: "Installing & Upgrading",
+					fields: { url: `${base_url}/docs/install` },
+				},
+				{ title: "FAQ", fields: { url: `${base_url}/docs/faq?a=1&b=2` } },
+			]
+		);
+	});
+
+	it("stops fetching child sitemaps once enough pages match", async () => {
+		const children = Array.from(
+			{ length: 50 },
+			(_, index) => `/many-${index}.xml`
+		);
+		pages["/many-sitemaps.xml"] = `<sitemapindex>${children
+			.map((path) => `<sitemap><loc>${base_url}${path}</loc></sitemap>`)
+			.join("")}</sitemapindex>`;
+		children.forEach((path, index) => {
+			pages[path] =
+				`<urlset><url><loc>${base_url}/page-${index}</loc></url></urlset>`;
+			pages[`/page-${index}`] = `<title>Page ${index}</title>`;
+		});
+		requested.length = 0;
+
+		const items = await load_source_items({
+			name: "many-sitemaps",
+			type: "sitemap",
+			url: `${base_url}/many-sitemaps.xml`,
+			limit: 2,
+		});
+
+		assert.deepEqual(
+			items.map((item) => item.body.title),
+			["Page 0", "Page 1"]
+		);
+		// Child sitemaps already being fetched when the limit was reached finish
+		const fetched = requested.filter((url) => url.startsWith("/many-"));
+		assert.ok(fetched.length < 10, `fetched ${fetched.length} sitemaps`);
+	});
+});
+
+describe("manifest sources", () => {
+	let directory: string;
+
+	before(async () => {
+		directory = await fs.mkdtemp(join(tmpdir(), "pre-warm-"));
+	});
+
+	after(async () => {
+		await fs.rm(directory, { recursive: true, force: true });
+	});
+
+	it("reads a CSV manifest under the source defaults", async () => {
+		const path = join(directory, "cards.csv");
+		await fs.writeFile(
+			path,
+			"title,author,filename\nLaunch,Ada,launch\nRoadmap,,roadmap\n"
+		);
+
+		const items = await load_source_items({
+			name: "cards",
+			type: "manifest",
+			path,
+			defaults: { theme: "dark", author: "Team" },
+		});
+
+		assert.deepEqual(items, [
+			{
+				body: { theme: "dark", author: "Ada", title: "Launch" },
+				filename: "launch",
+			},
+			{
+				body: { theme: "dark", author: "Team", title: "Roadmap" },
+				filename: "roadmap",
+			},
+		]);
+	});
+});
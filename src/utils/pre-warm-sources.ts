@@ -0,0 +1,318 @@
+import { promises as fs } from "node:fs";
+import { extname } from "node:path";
+import { batch_item, parse_manifest } from "./batch-manifest";
+import { log } from "./logger";
+
+const DEFAULT_SOURCE_LIMIT = 20;
+const DEFAULT_SOURCE_TIMEOUT_MS = 10000;
+const MAX_SOURCE_BYTES = 5 * 1024 * 1024; // Per fetched document
+const SITEMAP_FETCH_CONCURRENCY = 4; // Child sitemaps of an index fetched at once
+
+// One entry of config/pre-warm.json "sources"
+export interface pre_warm_source {
+	name: string;
+	type: "json" | "feed" | "sitemap" | "manifest";
+	url?: string; // json, feed and sitemap
+	path?: string; // manifest (JSON or CSV, same format as og:generate)
+	items?: string | string[]; // json: dotted path(s) to the array(s) of records
+	map?: Record<string, string>; // Body property -> dotted path in each record
+	include?: string; // sitemap: only page URLs matching this regex
+	defaults?: Record<string, unknown>; // Body properties every item starts from
+	limit?: number; // Max images from this source
+	timeout_ms?: number; // Per fetch
+}
+
+// Records each source type produces, before mapping
+const DEFAULT_MAPS: Record<pre_warm_source["type"], Record<string, string>> = {
+	json: { title: "title" },
+	feed: { title: "title", author: "author" },
+	sitemap: { title: "title" },
+	manifest: {},
+};
+
+type source_record = Record<string, unknown>;
+
+function get_path(record: unknown, path: string): unknown {
+	return path
+		.split(".")
+		.reduce<unknown>(
+			(value, key) =>
+				value && typeof value === "object"
+					? (value as Record<string, unknown>)[key]
+					: undefined,
+			record
+		);
+}
+
+// Set "fields.date" style paths, creating the nested objects
+function set_path(target: source_record, path: string, value: unknown): void {
+	const keys = path.split(".");
+	let current = target;
+	for (const key of keys.slice(0, -1)) {
+		if (typeof current[key] !== "object" || current[key] === null) {
+			current[key] = {};
+		}
+		current = current[key] as source_record;
+	}
+	current[keys[keys.length - 1]] = value;
+}
+
+async function fetch_text(url: string, timeout_ms: number): Promise<string> {
+	const response = await fetch(url, {
+		signal: AbortSignal.timeout(timeout_ms),
+	});
+	if (!response.ok) {
+		throw new Error(`${url} returned ${response.status}`);
+	}
+	const too_large = () =>
+		new Error(`${url} is larger than ${MAX_SOURCE_BYTES} bytes`);
+	if (Number(response.headers.get("content-length")) > MAX_SOURCE_BYTES) {
+		throw too_large();
+	}
+	if (!response.body) {
+		return "";
+	}
+
+	// Stop reading as soon as the cap is passed, content-length or not
+	const chunks: Buffer[] = [];
+	let total = 0;
+	const reader = response.body.getReader();
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+		total += value.length;
+		if (total > MAX_SOURCE_BYTES) {
+			await reader.cancel().catch(() => {});
+			throw too_large();
+		}
+		chunks.push(Buffer.from(value));
+	}
+	return Buffer.concat(chunks).toString("utf-8");
+}
+
+function decode_xml_entities(text: string): string {
+	return text
+		.replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+			String.fromCodePoint(parseInt(hex, 16))
+		)
+		.replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&amp;/g, "&");
+}
+
+// Inner XML of every <tag>...</tag> (feeds and sitemaps are simple enough
+// not to need a full XML parser)
+function xml_elements(xml: string, tag: string): string[] {
+	const pattern = new RegExp(
+		`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`,
+		"gi"
+	);
+	return Array.from(xml.matchAll(pattern), (match) => match[1]);
+}
+
+// Text of the first <tag>, with CDATA unwrapped and entities decoded
+function xml_text(xml: string, tag: string): string | undefined {
+	const [inner] = xml_elements(xml, tag);
+	if (inner === undefined) {
+		return undefined;
+	}
+	const cdata = inner.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+	const text = cdata
+		? cdata[1]
+		: decode_xml_entities(inner.replace(/<[^>]+>/g, ""));
+	return text.trim() || undefined;
+}
+
+// JSON API: records from one or more arrays, e.g. ["daily", "monthly"]
+async function load_json_records(
+	source: pre_warm_source,
+	timeout_ms: number
+): Promise<source_record[]> {
+	const data = JSON.parse(await fetch_text(source.url!, timeout_ms));
+	const paths = [source.items ?? ""].flat();
+
+	return paths.flatMap((path) => {
+		const list = path ? get_path(data, path) : data;
+		if (!Array.isArray(list)) {
+			throw new Error(`"${path || "(root)"}" is not an array`);
+		}
+		return list as source_record[];
+	});
+}
+
+// RSS <item> or Atom <entry> elements
+async function load_feed_records(
+	source: pre_warm_source,
+	timeout_ms: number
+): Promise<source_record[]> {
+	const xml = await fetch_text(source.url!, timeout_ms);
+	const entries = xml_elements(xml, "item");
+	const atom = entries.length === 0;
+
+	return (atom ? xml_elements(xml, "entry") : entries).map((entry) => ({
+		title: xml_text(entry, "title"),
+		author: atom
+			? xml_text(xml_elements(entry, "author")[0] || "", "name")
+			: xml_text(entry, "dc:creator") || xml_text(entry, "author"),
+		link: atom
+			? entry.match(/<link[^>]*href="([^"]+)"/i)?.[1]
+			: xml_text(entry, "link"),
+		published:
+			xml_text(entry, atom ? "published" : "pubDate") ||
+			xml_text(entry, "updated"),
+	}));
+}
+
+// Title of an HTML page, preferring og:title over <title>
+function extract_page_title(html: string): string | undefined {
+	for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+		const attribute = (name: string) =>
+			tag.match(new RegExp(`${name}\\s*=\\s*["']([^"']*)["']`, "i"))?.[1];
+		if ((attribute("property") || attribute("name")) === "og:title") {
+			const content = attribute("content");
+			if (content) {
+				return decode_xml_entities(content).trim();
+			}
+		}
+	}
+	return xml_text(html, "title");
+}
+
+// Sitemap (or one level of sitemap index) -> page URLs -> page titles
+async function load_sitemap_records(
+	source: pre_warm_source,
+	timeout_ms: number,
+	limit: number
+): Promise<source_record[]> {
+	const include = source.include ? new RegExp(source.include) : null;
+	const page_urls = (sitemap: string) =>
+		xml_elements(sitemap, "loc")
+			.map((url) => decode_xml_entities(url).trim())
+			.filter((url) => !include || include.test(url));
+
+	const xml = await fetch_text(source.url!, timeout_ms);
+	let urls: string[];
+
+	if (/<sitemapindex[\s>]/i.test(xml)) {
+		// A few child sitemaps at a time, and none once enough pages match
+		const children = xml_elements(xml, "loc").map((url) =>
+			decode_xml_entities(url).trim()
+		);
+		const nested: string[][] = [];
+		let matched = 0;
+		let next = 0;
+		const worker = async () => {
+			while (next < children.length && matched < limit) {
+				const index = next++;
+				try {
+					nested[index] = page_urls(
+						await fetch_text(children[index], timeout_ms)
+					);
+					matched += nested[index].length;
+				} catch (error) {
+					log.error("Pre-warm sitemap fetch failed", {
+						source: source.name,
+						error,
+					});
+				}
+			}
+		};
+		await Promise.all(
+			Array.from(
+				{ length: Math.min(SITEMAP_FETCH_CONCURRENCY, children.length) },
+				worker
+			)
+		);
+		// In index order, whichever child finished first
+		urls = nested.flatMap((child) => child || []);
+	} else {
+		urls = page_urls(xml);
+	}
+	const pages = urls.slice(0, limit);
+
+	// One page at a time - these are the site's own pages, not ours
+	const records: source_record[] = [];
+	for (const url of pages) {
+		try {
+			const title = extract_page_title(await fetch_text(url, timeout_ms));
+			records.push({ url, title });
+		} catch (error) {
+			log.error("Pre-warm page fetch failed", { source: source.name, error });
+		}
+	}
+	return records;
+}
+
+// Check a config entry, returning why it can't be used
+export function validate_pre_warm_source(
+	source: pre_warm_source
+): string | null {
+	if (!Object.hasOwn(DEFAULT_MAPS, source.type)) {
+		return `type must be one of: ${Object.keys(DEFAULT_MAPS).join(", ")}`;
+	}
+	if (source.type === "manifest" ? !source.path : !source.url) {
+		return source.type === "manifest" ? "path is required" : "url is required";
+	}
+	if (source.include) {
+		try {
+			new RegExp(source.include);
+		} catch {
+			return "include must be a valid regular expression";
+		}
+	}
+	return null;
+}
+
+// Load one source's items, already mapped and merged over its defaults
+export async function load_source_items(
+	source: pre_warm_source
+): Promise<batch_item[]> {
+	const limit = source.limit || DEFAULT_SOURCE_LIMIT;
+	const timeout_ms = source.timeout_ms || DEFAULT_SOURCE_TIMEOUT_MS;
+
+	let items: batch_item[];
+	if (source.type === "manifest") {
+		const content = await fs.readFile(source.path!, "utf-8");
+		items = parse_manifest(
+			content,
+			extname(source.path!).toLowerCase() === ".csv" ? "csv" : "json"
+		);
+	} else {
+		const records =
+			source.type === "json"
+				? await load_json_records(source, timeout_ms)
+				: source.type === "feed"
+				? await load_feed_records(source, timeout_ms)
+				: await load_sitemap_records(source, timeout_ms, limit);
+
+		const map = source.map || DEFAULT_MAPS[source.type];
+		items = records.map((record) => {
+			const body: source_record = {};
+			for (const [property, path] of Object.entries(map)) {
+				const value = get_path(record, path);
+				if (value !== undefined && value !== null && value !== "") {
+					set_path(body, property, value);
+				}
+			}
+			return { body };
+		});
+	}
+
+	// Mapped values win over the source defaults, nested objects are merged
+	return items.slice(0, limit).map((item) => {
+		const body: source_record = { ...source.defaults };
+		for (const [key, value] of Object.entries(item.body)) {
+			const fallback = body[key];
+			body[key] =
+				fallback && typeof fallback === "object" && typeof value === "object"
+					? { ...fallback, ...(value as object) }
+					: value;
+		}
+		return { ...item, body };
+	});
+}
@@ -0,0 +1,185 @@
+import { Ratelimit } from "@upstash/ratelimit";
+import { Redis } from "@upstash/redis";
+
+const RATE_LIMIT_PREFIX = "og-image-gen";
+const USAGE_TTL_SECONDS = 400 * 24 * 60 * 60; // Keep a year of monthly usage
+const MEMORY_SWEEP_SIZE = 10000; // Drop expired windows (or past months) past this many buckets
+
+export type usage_counter = "requests" | "renders";
+export type usage_counts = Record<usage_counter, number>;
+
+export interface rate_limit_result {
+	success: boolean;
+	limit: number;
+	remaining: number;
+	reset: number; // Epoch milliseconds when the window frees up
+}
+
+// Where windows and monthly usage are counted: Upstash Redis in production so
+// replicas share limits, process memory otherwise
+export interface rate_limit_backend {
+	name: "upstash" | "memory";
+	limit(
+		bucket: string,
+		max: number,
+		window_ms: number
+	): Promise<rate_limit_result>;
+	get_usage(id: string, month: string): Promise<usage_counts>;
+	// Returns the count after adding by (-1 undoes an increment)
+	increment_usage(
+		id: string,
+		month: string,
+		counter: usage_counter,
+		by?: number
+	): Promise<number>;
+}
+
+function empty_usage(): usage_counts {
+	return { requests: 0, renders: 0 };
+}
+
+// e.g. "2025-01", the calendar month (UTC) usage is counted in
+export function usage_month(time: number = Date.now()): string {
+	return new Date(time).toISOString().slice(0, 7);
+}
+
+// Start of the next calendar month, when monthly quotas reset
+export function next_month_start(time: number = Date.now()): number {
+	const date = new Date(time);
+	return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
+
+export class upstash_rate_limit_backend implements rate_limit_backend {
+	public readonly name = "upstash";
+	// One sliding window limiter per distinct limit and window
+	private limiters = new Map<string, Ratelimit>();
+
+	constructor(private redis: Redis) {}
+
+	private get_limiter(max: number, window_ms: number): Ratelimit {
+		const id = `${max}/${window_ms}`;
+		let limiter = this.limiters.get(id);
+		if (!limiter) {
+			limiter = new Ratelimit({
+				redis: this.redis,
+				limiter: Ratelimit.slidingWindow(max, `${window_ms}ms`),
+				analytics: true,
+				prefix: RATE_LIMIT_PREFIX,
+			});
+			this.limiters.set(id, limiter);
+		}
+		return limiter;
+	}
+
+	async limit(
+		bucket: string,
+		max: number,
+		window_ms: number
+	): Promise<rate_limit_result> {
+		const { success, limit, remaining, reset } = await this.get_limiter(
+			max,
+			window_ms
+		).limit(bucket);
+		return { success, limit, remaining, reset };
+	}
+
+	private usage_key(id: string, month: string): string {
+		return `${RATE_LIMIT_PREFIX}:usage:${month}:${id}`;
+	}
+
+	async get_usage(id: string, month: string): Promise<usage_counts> {
+		const counts = await this.redis.hgetall<Record<string, number>>(
+			this.usage_key(id, month)
+		);
+		return {
+			requests: Number(counts?.requests) || 0,
+			renders: Number(counts?.renders) || 0,
+		};
+	}
+
+	async increment_usage(
+		id: string,
+		month: string,
+		counter: usage_counter,
+		by: number = 1
+	): Promise<number> {
+		const key = this.usage_key(id, month);
+		const count = await this.redis.hincrby(key, counter, by);
+		await this.redis.expire(key, USAGE_TTL_SECONDS);
+		return count;
+	}
+}
+
+// Fixed windows per bucket; usage is lost on restart
+export class memory_rate_limit_backend implements rate_limit_backend {
+	public readonly name = "memory";
+	private windows = new Map<string, { count: number; reset_time: number }>();
+	private usage = new Map<string, usage_counts>();
+
+	async limit(
+		bucket: string,
+		max: number,
+		window_ms: number
+	): Promise<rate_limit_result> {
+		const now = Date.now();
+		let window = this.windows.get(bucket);
+
+		if (!window || now > window.reset_time) {
+			if (this.windows.size >= MEMORY_SWEEP_SIZE) {
+				this.sweep(now);
+			}
+			window = { count: 0, reset_time: now + window_ms };
+			this.windows.set(bucket, window);
+		}
+
+		const success = window.count < max;
+		if (success) {
+			window.count++;
+		}
+		return {
+			success,
+			limit: max,
+			remaining: Math.max(0, max - window.count),
+			reset: window.reset_time,
+		};
+	}
+
+	private sweep(now: number): void {
+		for (const [bucket, window] of this.windows) {
+			if (now > window.reset_time) {
+				this.windows.delete(bucket);
+			}
+		}
+	}
+
+	async get_usage(id: string, month: string): Promise<usage_counts> {
+		return { ...(this.usage.get(`${month}:${id}`) || empty_usage()) };
+	}
+
+	async increment_usage(
+		id: string,
+		month: string,
+		counter: usage_counter,
+		by: number = 1
+	): Promise<number> {
+		const key = `${month}:${id}`;
+		let counts = this.usage.get(key);
+		if (!counts) {
+			if (this.usage.size >= MEMORY_SWEEP_SIZE) {
+				this.sweep_usage(month);
+			}
+			counts = empty_usage();
+			this.usage.set(key, counts);
+		}
+		return (counts[counter] += by);
+	}
+
+	// Only the current month is ever checked against a quota
+	private sweep_usage(month: string): void {
+		for (const key of this.usage.keys()) {
+			if (!key.startsWith(`${month}:`)) {
+				this.usage.delete(key);
+			}
+		}
+	}
+}
@@ -0,0 +1,286 @@
+import { remote_image_urls } from "../types/og-params";
+
+// Remote image configuration
+export const REMOTE_IMAGE_HOSTS = (process.env.REMOTE_IMAGE_HOSTS || "")
+	.split(",")
+	.map((host) => host.trim().toLowerCase())
+	.filter(Boolean); // e.g. "avatars.githubusercontent.com,*.cloudinary.com"
+export const REMOTE_IMAGE_MAX_BYTES =
+	Number(process.env.REMOTE_IMAGE_MAX_BYTES) || 2 * 1024 * 1024; // 2MB per image
+export const REMOTE_IMAGE_TIMEOUT_MS =
+	Number(process.env.REMOTE_IMAGE_TIMEOUT_MS) || 5000; // Per fetch, redirects included
+export const REMOTE_IMAGE_CACHE_TTL =
+	Number(process.env.REMOTE_IMAGE_CACHE_TTL) || 3600; // 1 hour in seconds
+export const REMOTE_IMAGE_CACHE_MAX_BYTES =
+	Number(process.env.REMOTE_IMAGE_CACHE_MAX_BYTES) || 20 * 1024 * 1024; // 20MB of fetched images
+
+// Template fields that take an image URL instead of text
+export const REMOTE_IMAGE_FIELDS = ["avatar", "logo", "background"] as const;
+export type remote_image_field = (typeof REMOTE_IMAGE_FIELDS)[number];
+
+const MAX_URL_LENGTH = 500;
+const MAX_REDIRECTS = 3;
+
+// SVG is left out on purpose - it can carry scripts and external references
+const ALLOWED_CONTENT_TYPES = [
+	"image/png",
+	"image/jpeg",
+	"image/webp",
+	"image/gif",
+	"image/avif",
+];
+
+// Thrown when an allowed image URL could not be fetched or was rejected
+export class remote_image_error extends Error {
+	constructor(public url: string, message: string) {
+		super(message);
+		this.name = "remote_image_error";
+	}
+}
+
+interface cached_image {
+	data_uri: string;
+	bytes: number;
+	fetched_at: number;
+}
+
+// Fetched images as data URIs, least recently used first (same LRU trick as
+// the RAM image cache)
+const image_cache = new Map<string, cached_image>();
+const in_flight = new Map<string, Promise<string>>();
+let cache_bytes = 0;
+let hits = 0;
+let misses = 0;
+let failures = 0;
+
+// Exact host, or "*.example.com" for any subdomain of example.com
+export function is_allowed_host(hostname: string): boolean {
+	const host = hostname.toLowerCase();
+	return REMOTE_IMAGE_HOSTS.some((allowed) =>
+		allowed.startsWith("*.")
+			? host.endsWith(allowed.slice(1))
+			: host === allowed
+	);
+}
+
+export function validate_remote_image_url(
+	name: string,
+	value: string
+): { url?: string; error?: string } {
+	if (REMOTE_IMAGE_HOSTS.length === 0) {
+		return { error: `${name} is disabled (no REMOTE_IMAGE_HOSTS configured)` };
+	}
+
+	if (value.length > MAX_URL_LENGTH) {
+		return { error: `${name} must be ${MAX_URL_LENGTH} characters or less` };
+	}
+
+	let url: URL;
+	try {
+		url = new URL(value);
+	} catch {
+		return { error: `${name} must be an absolute https URL` };
+	}
+
+	if (url.protocol !== "https:" || url.username || url.password) {
+		return { error: `${name} must be an absolute https URL` };
+	}
+
+	if (!is_allowed_host(url.hostname)) {
+		return {
+			error: `${name} host must be one of: ${REMOTE_IMAGE_HOSTS.join(", ")}`,
+		};
+	}
+
+	return { url: url.toString() };
+}
+
+// Read the body, giving up as soon as it passes the size limit
+async function read_limited(response: Response, url: string): Promise<Buffer> {
+	const declared = Number(response.headers.get("content-length"));
+	if (declared > REMOTE_IMAGE_MAX_BYTES) {
+		throw new remote_image_error(
+			url,
+			`Image is larger than ${REMOTE_IMAGE_MAX_BYTES} bytes`
+		);
+	}
+
+	if (!response.body) {
+		return Buffer.alloc(0);
+	}
+
+	const chunks: Buffer[] = [];
+	let total = 0;
+	const reader = response.body.getReader();
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+		total += value.length;
+		if (total > REMOTE_IMAGE_MAX_BYTES) {
+			await reader.cancel().catch(() => {});
+			throw new remote_image_error(
+				url,
+				`Image is larger than ${REMOTE_IMAGE_MAX_BYTES} bytes`
+			);
+		}
+		chunks.push(Buffer.from(value));
+	}
+
+	return Buffer.concat(chunks);
+}
+
+async function download_image(url: string): Promise<string> {
+	const signal = AbortSignal.timeout(REMOTE_IMAGE_TIMEOUT_MS);
+	let current = url;
+
+	try {
+		// Follow redirects by hand so every hop is checked against the allowlist
+		for (let redirects = 0; ; redirects++) {
+			const response = await fetch(current, {
+				redirect: "manual",
+				signal,
+				headers: { Accept: ALLOWED_CONTENT_TYPES.join(",") },
+			});
+
+			if (response.status >= 300 && response.status < 400) {
+				const location = response.headers.get("location");
+				if (!location || redirects >= MAX_REDIRECTS) {
+					throw new remote_image_error(url, "Too many redirects");
+				}
+				const next = new URL(location, current);
+				if (next.protocol !== "https:" || !is_allowed_host(next.hostname)) {
+					throw new remote_image_error(
+						url,
+						`Redirect to disallowed host ${next.hostname}`
+					);
+				}
+				current = next.toString();
+				continue;
+			}
+
+			if (!response.ok) {
+				throw new remote_image_error(url, `Upstream returned ${response.status}`);
+			}
+
+			const content_type = (response.headers.get("content-type") || "")
+				.split(";")[0]
+				.trim()
+				.toLowerCase();
+			if (!ALLOWED_CONTENT_TYPES.includes(content_type)) {
+				throw new remote_image_error(
+					url,
+					`Unsupported content type "${content_type || "none"}"`
+				);
+			}
+
+			const buffer = await read_limited(response, url);
+			if (buffer.length === 0) {
+				throw new remote_image_error(url, "Image is empty");
+			}
+
+			return `data:${content_type};base64,${buffer.toString("base64")}`;
+		}
+	} catch (error) {
+		if (error instanceof remote_image_error) {
+			throw error;
+		}
+		if (signal.aborted) {
+			throw new remote_image_error(
+				url,
+				`Timed out after ${REMOTE_IMAGE_TIMEOUT_MS}ms`
+			);
+		}
+		throw new remote_image_error(url, (error as Error).message);
+	}
+}
+
+function cache_data_uri(url: string, data_uri: string): void {
+	const previous = image_cache.get(url);
+	if (previous) {
+		image_cache.delete(url);
+		cache_bytes -= previous.bytes;
+	}
+
+	const bytes = data_uri.length;
+	if (bytes > REMOTE_IMAGE_CACHE_MAX_BYTES) {
+		return;
+	}
+
+	image_cache.set(url, { data_uri, bytes, fetched_at: Date.now() });
+	cache_bytes += bytes;
+
+	// Evict from the least recently used end
+	for (const [key, entry] of image_cache) {
+		if (cache_bytes <= REMOTE_IMAGE_CACHE_MAX_BYTES) {
+			break;
+		}
+		image_cache.delete(key);
+		cache_bytes -= entry.bytes;
+	}
+}
+
+// Fetch an allowed image URL as a data URI, from cache when possible
+export async function fetch_remote_image(url: string): Promise<string> {
+	const cached = image_cache.get(url);
+	if (cached && Date.now() - cached.fetched_at < REMOTE_IMAGE_CACHE_TTL * 1000) {
+		image_cache.delete(url);
+		image_cache.set(url, cached);
+		hits++;
+		return cached.data_uri;
+	}
+
+	// Renders that need the same image share one download
+	const existing = in_flight.get(url);
+	if (existing) {
+		return existing;
+	}
+
+	misses++;
+	const pending = download_image(url)
+		.then((data_uri) => {
+			cache_data_uri(url, data_uri);
+			return data_uri;
+		})
+		.catch((error) => {
+			failures++;
+			throw error;
+		})
+		.finally(() => {
+			in_flight.delete(url);
+		});
+	in_flight.set(url, pending);
+
+	return pending;
+}
+
+// Fetch every image a render needs, keyed by template field
+export async function resolve_remote_images(
+	images: remote_image_urls = {}
+): Promise<Partial<Record<remote_image_field, string>>> {
+	const resolved: Partial<Record<remote_image_field, string>> = {};
+
+	await Promise.all(
+		REMOTE_IMAGE_FIELDS.map(async (field) => {
+			const url = images[field];
+			if (url) {
+				resolved[field] = await fetch_remote_image(url);
+			}
+		})
+	);
+
+	return resolved;
+}
+
+export function get_remote_image_stats() {
+	return {
+		allowed_hosts: REMOTE_IMAGE_HOSTS.length,
+		cached: image_cache.size,
+		bytes: cache_bytes,
+		max_bytes: REMOTE_IMAGE_CACHE_MAX_BYTES,
+		hits,
+		misses,
+		failures,
+	};
+}
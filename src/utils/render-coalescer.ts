@@ -0,0 +1,47 @@
+import { CacheEntry } from "../types/cache-store";
+import { rendered_image } from "../types/og-params";
+import { renders_coalesced } from "./metrics";
+
+// A render, with the cache entry it was stored as when it was cached, so
+// every waiter sends the same ETag and Last-Modified
+export type shared_render = rendered_image & { entry?: CacheEntry };
+
+// Concurrent misses for the same cache key share one render
+const in_flight = new Map<string, Promise<shared_render>>();
+
+let renders_started = 0;
+let renders_saved = 0;
+
+export async function coalesce_render(
+	cache_key: string,
+	render: () => Promise<shared_render>
+): Promise<shared_render & { coalesced: boolean }> {
+	const existing = in_flight.get(cache_key);
+	if (existing) {
+		renders_saved++;
+		renders_coalesced.inc();
+		// Rejections propagate to every waiter
+		return { ...(await existing), coalesced: true };
+	}
+
+	renders_started++;
+	const pending = render().finally(() => {
+		in_flight.delete(cache_key);
+	});
+	in_flight.set(cache_key, pending);
+
+	return { ...(await pending), coalesced: false };
+}
+
+// Whether a request for this key would join a render instead of starting one
+export function is_render_in_flight(cache_key: string): boolean {
+	return in_flight.has(cache_key);
+}
+
+export function get_coalescing_stats() {
+	return {
+		in_flight: in_flight.size,
+		renders_started,
+		renders_saved,
+	};
+}
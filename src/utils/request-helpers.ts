@@ -1,7 +1,49 @@
+import { getConnInfo } from "@hono/node-server/conninfo";
 import { Context } from "hono";
 
+// Proxies in front of the server that append to X-Forwarded-For (1 for
+// Coolify's Traefik, 0 when clients connect directly)
+const trusted_proxy_hops = Number(process.env.TRUSTED_PROXY_HOPS);
+export const TRUSTED_PROXY_HOPS =
+	process.env.TRUSTED_PROXY_HOPS?.trim() &&
+	Number.isInteger(trusted_proxy_hops) &&
+	trusted_proxy_hops >= 0
+		? trusted_proxy_hops
+		: 1;
+
+// Each trusted proxy appends the address it was connected from, so the client
+// is TRUSTED_PROXY_HOPS entries from the right. Anything further left was sent
+// by the client and can't be trusted
+export function get_client_ip(c: Context): string {
+	if (TRUSTED_PROXY_HOPS > 0) {
+		const forwarded = (c.req.header("x-forwarded-for") || "")
+			.split(",")
+			.map((address) => address.trim())
+			.filter(Boolean);
+		if (forwarded.length) {
+			return forwarded[Math.max(0, forwarded.length - TRUSTED_PROXY_HOPS)];
+		}
+	}
+
+	try {
+		return getConnInfo(c).remote.address || "unknown";
+	} catch {
+		// Not served by @hono/node-server (e.g. app.request() in scripts)
+		return "unknown";
+	}
+}
+
 // Function to check if request is from allowed origin
 export function is_authorized_origin(c: Context): boolean {
+	// With signed URLs enabled the signature decides, not the spoofable Referer
+	const signature_status = c.get("signature_status");
+	if (signature_status === "verified") {
+		return true;
+	}
+	if (signature_status === "unsigned") {
+		return false;
+	}
+
 	const referer = c.req.header("referer");
 
 	// Allow direct access (no referer) and development mode
@@ -14,36 +56,33 @@ export function is_authorized_origin(c: Context): boolean {
 	return allowed_origins.some((origin) => referer.startsWith(origin.trim()));
 }
 
-// Enhanced logging function
-export function log_request(
+// Conditional GET: If-None-Match wins over If-Modified-Since (RFC 9110 13.2.2).
+// etag is the quoted ETag being sent, modified_at epoch milliseconds
+export function is_not_modified(
 	c: Context,
-	cache_status: string,
-	response_time: number,
-	cache_key: string,
-	authorized: boolean
-) {
-	const client_ip =
-		c.req.header("x-forwarded-for") || c.req.header("x-real-ip") || "unknown";
-	const user_agent = c.req.header("user-agent") || "unknown";
-	const referer = c.req.header("referer") || "direct";
-	const auth_status = authorized ? "✅ AUTHORIZED" : "❌ UNAUTHORIZED";
-
-	console.log(
-		`📊 ${cache_status} | ${response_time}ms | ${auth_status} | ${client_ip} | ${referer} | ${user_agent.substring(
-			0,
-			100
-		)}`
-	);
+	etag: string,
+	modified_at: number
+): boolean {
+	// Conditional POSTs mean something else (412 semantics), so only GET/HEAD
+	if (c.req.method !== "GET" && c.req.method !== "HEAD") {
+		return false;
+	}
 
-	// Log potential abuse patterns
-	if (!authorized) {
-		console.log(
-			`🚨 POTENTIAL ABUSE: ${client_ip} | ${referer} | ${user_agent.substring(
-				0,
-				50
-			)}`
-		);
+	const if_none_match = c.req.header("if-none-match");
+	if (if_none_match) {
+		// Weak comparison - W/"abc" matches "abc"
+		return if_none_match
+			.split(",")
+			.map((tag) => tag.trim().replace(/^W\//, ""))
+			.some((tag) => tag === "*" || tag === etag);
 	}
+
+	const if_modified_since = Date.parse(c.req.header("if-modified-since") || "");
+	// HTTP dates have whole-second precision
+	return (
+		!Number.isNaN(if_modified_since) &&
+		Math.floor(modified_at / 1000) * 1000 <= if_modified_since
+	);
 }
 
 // Function to decode HTML entities in query parameters
@@ -0,0 +1,89 @@
+// Named output sizes in CSS pixels
+export const SIZE_PRESETS = {
+	og: { width: 1200, height: 630 }, // Facebook, LinkedIn, Slack, Discord
+	twitter: { width: 1200, height: 600 }, // summary_large_image (2:1)
+	square: { width: 1200, height: 1200 },
+	pinterest: { width: 1000, height: 1500 }, // 2:3 pin
+	story: { width: 1080, height: 1920 }, // 9:16 stories
+};
+
+export type size_preset = keyof typeof SIZE_PRESETS;
+
+export const DEFAULT_SIZE_PRESET: size_preset = "og";
+
+// Bounds for custom width/height/scale
+export const MIN_DIMENSION = 200;
+export const MAX_DIMENSION = 2400;
+export const MAX_SCALE = 3;
+
+export interface image_dimensions {
+	width: number;
+	height: number;
+	scale: number;
+}
+
+export function is_size_preset(value: string): value is size_preset {
+	return Object.hasOwn(SIZE_PRESETS, value);
+}
+
+// Resolve ?size=, ?width=, ?height= and ?scale= into validated dimensions
+export function resolve_dimensions(query: {
+	size?: string;
+	width?: string;
+	height?: string;
+	scale?: string;
+}): { dimensions?: image_dimensions; field?: string; error?: string } {
+	const size = query.size || DEFAULT_SIZE_PRESET;
+	if (!is_size_preset(size)) {
+		return {
+			field: "size",
+			error: `Size must be one of: ${Object.keys(SIZE_PRESETS).join(", ")}`,
+		};
+	}
+
+	const preset = SIZE_PRESETS[size];
+	const width = query.width ? Number(query.width) : preset.width;
+	const height = query.height ? Number(query.height) : preset.height;
+	const scale = query.scale ? Number(query.scale) : 1;
+
+	for (const [field, name, value] of [
+		["width", "Width", width],
+		["height", "Height", height],
+	] as const) {
+		if (
+			!Number.isInteger(value) ||
+			value < MIN_DIMENSION ||
+			value > MAX_DIMENSION
+		) {
+			return {
+				field,
+				error: `${name} must be an integer between ${MIN_DIMENSION} and ${MAX_DIMENSION}`,
+			};
+		}
+	}
+
+	// Quarter steps keep the number of cache variants small
+	if (
+		!Number.isFinite(scale) ||
+		scale < 1 ||
+		scale > MAX_SCALE ||
+		(scale * 4) % 1 !== 0
+	) {
+		return {
+			field: "scale",
+			error: `Scale must be between 1 and ${MAX_SCALE} in steps of 0.25`,
+		};
+	}
+
+	return { dimensions: { width, height, scale } };
+}
+
+// CSS variables templates use instead of fixed pixel sizes
+export function get_dimension_css_variables(
+	dimensions: image_dimensions
+): Record<string, string> {
+	return {
+		"--og-width": `${dimensions.width}px`,
+		"--og-height": `${dimensions.height}px`,
+	};
+}
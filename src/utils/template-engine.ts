@@ -0,0 +1,111 @@
+// Minimal mustache-style template syntax:
+//   {{name}}              escaped variable (dotted paths allowed, e.g. {{post.date}})
+//   {{{name}}}            raw variable - use only for trusted values
+//   {{#if name}}...{{else}}...{{/if}}
+//   {{#unless name}}...{{/unless}}
+//   {{#each list}}{{this}} {{@index}}{{else}}empty{{/each}}
+
+export type template_node =
+	| { type: "text"; value: string }
+	| { type: "variable"; path: string; raw: boolean }
+	| {
+			type: "if";
+			path: string;
+			negate: boolean;
+			body: template_node[];
+			otherwise: template_node[];
+	  }
+	| {
+			type: "each";
+			path: string;
+			body: template_node[];
+			otherwise: template_node[];
+	  };
+
+type block_node = Extract<template_node, { type: "if" | "each" }>;
+
+const TAG_PATTERN = /\{\{\{\s*([^{}]+?)\s*\}\}\}|\{\{\s*([^{}]+?)\s*\}\}/g;
+const PATH_PATTERN = /^(this|@index|[A-Za-z_][\w-]*)(\.[A-Za-z_][\w-]*)*$/;
+
+function check_path(path: string, tag: string): string {
+	if (!PATH_PATTERN.test(path)) {
+		throw new Error(`Invalid variable name in template tag "${tag}"`);
+	}
+	return path;
+}
+
+export function compile_template(source: string): template_node[] {
+	const root: template_node[] = [];
+	// Each open block tracks which branch new nodes are appended to
+	const stack: { node: block_node; keyword: string; target: template_node[] }[] =
+		[];
+	const current = () =>
+		stack.length ? stack[stack.length - 1].target : root;
+
+	let last_index = 0;
+	for (const match of source.matchAll(TAG_PATTERN)) {
+		const [tag, raw_path, expression] = match;
+		const index = match.index ?? 0;
+
+		if (index > last_index) {
+			current().push({ type: "text", value: source.slice(last_index, index) });
+		}
+		last_index = index + tag.length;
+
+		if (raw_path !== undefined) {
+			current().push({
+				type: "variable",
+				path: check_path(raw_path, tag),
+				raw: true,
+			});
+			continue;
+		}
+
+		const [keyword, ...rest] = expression.split(/\s+/);
+		const argument = rest.join(" ");
+
+		if (keyword === "#if" || keyword === "#unless" || keyword === "#each") {
+			const path = check_path(argument, tag);
+			const node: block_node =
+				keyword === "#each"
+					? { type: "each", path, body: [], otherwise: [] }
+					: {
+							type: "if",
+							path,
+							negate: keyword === "#unless",
+							body: [],
+							otherwise: [],
+					  };
+			current().push(node);
+			stack.push({ node, keyword: keyword.slice(1), target: node.body });
+		} else if (keyword === "else") {
+			const open = stack[stack.length - 1];
+			if (!open || open.target === open.node.otherwise) {
+				throw new Error("Unexpected {{else}} in template");
+			}
+			open.target = open.node.otherwise;
+		} else if (keyword.startsWith("/")) {
+			const open = stack.pop();
+			if (!open || open.keyword !== keyword.slice(1)) {
+				throw new Error(`Unexpected ${tag} in template`);
+			}
+		} else {
+			current().push({
+				type: "variable",
+				path: check_path(expression, tag),
+				raw: false,
+			});
+		}
+	}
+
+	if (stack.length) {
+		const open = stack[stack.length - 1];
+		throw new Error(`Unclosed {{#${open.keyword} ${open.node.path}}} in template`);
+	}
+
+	if (last_index < source.length) {
+		root.push({ type: "text", value: source.slice(last_index) });
+	}
+
+	return root;
+}
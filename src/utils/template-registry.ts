@@ -0,0 +1,152 @@
+import * as fs from "fs";
+import * as path from "path";
+import { text_fit_bounds } from "../types/og-params";
+import { log } from "./logger";
+
+export const TEMPLATES_DIR = path.join(process.cwd(), "src", "templates");
+export const DEFAULT_TEMPLATE = "default";
+
+// Only these names are used as template file names / cache key segments
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9\-_]*$/;
+const FIELD_NAME_PATTERN = /^[a-z][a-z0-9_]*(\[\])?$/;
+
+// Fields with dedicated validation in og_routes; anything else is a custom field
+export const CORE_FIELDS = [
+	"title",
+	"author",
+	"website",
+	"theme",
+	"avatar",
+	"logo",
+	"background",
+];
+
+// Templates declare themselves with a JSON comment, e.g.
+// <!-- og-template {"description": "Blog post card", "fields": ["title", "author", "tags[]"]} -->
+// A "[]" suffix marks a list field, passed as a comma-separated query value.
+// "fit": {"selector": ".title", "min": 36, "max": 72, "lines": 4} auto-sizes
+// that element's text between min and max px, clamping beyond the line limit
+const TEMPLATE_DECLARATION_PATTERN = /<!--\s*og-template\s+(\{[\s\S]*?\})\s*-->/;
+
+export interface template_definition {
+	name: string;
+	description: string;
+	fields: string[];
+	list_fields: string[];
+	text_fit?: text_fit_bounds;
+}
+
+function parse_text_fit(name: string, fit: unknown): text_fit_bounds | undefined {
+	if (fit === undefined) {
+		return undefined;
+	}
+
+	const { selector, min, max, lines } = (fit || {}) as Record<string, unknown>;
+	const is_size = (value: unknown): value is number =>
+		Number.isInteger(value) && (value as number) > 0;
+	if (
+		typeof selector !== "string" ||
+		!selector.trim() ||
+		!is_size(min) ||
+		!is_size(max) ||
+		!is_size(lines) ||
+		min > max
+	) {
+		log.warn(
+			'Template "fit" needs a selector, whole-pixel min <= max and lines, ignoring',
+			{ template: `${name}.html` }
+		);
+		return undefined;
+	}
+	return { selector, min_size: min, max_size: max, max_lines: lines };
+}
+
+let registry: Map<string, template_definition> | null = null;
+
+function parse_declaration(
+	name: string,
+	content: string
+): template_definition | null {
+	const match = content.match(TEMPLATE_DECLARATION_PATTERN);
+	if (!match) {
+		return null;
+	}
+
+	try {
+		const declaration = JSON.parse(match[1]) as {
+			description?: unknown;
+			fields?: unknown;
+			fit?: unknown;
+		};
+		const declared = Array.isArray(declaration.fields)
+			? declaration.fields.filter(
+					(f): f is string =>
+						typeof f === "string" && FIELD_NAME_PATTERN.test(f)
+			  )
+			: [];
+		const fields = declared.map((f) => f.replace(/\[\]$/, ""));
+		const list_fields = declared
+			.filter((f) => f.endsWith("[]"))
+			.map((f) => f.slice(0, -2));
+
+		return {
+			name,
+			description:
+				typeof declaration.description === "string"
+					? declaration.description
+					: "",
+			// Every template renders a title
+			fields: fields.includes("title") ? fields : ["title", ...fields],
+			list_fields,
+			text_fit: parse_text_fit(name, declaration.fit),
+		};
+	} catch (error) {
+		log.error("Invalid og-template declaration", {
+			template: `${name}.html`,
+			error,
+		});
+		return null;
+	}
+}
+
+// Scan the templates directory for files carrying an og-template declaration
+export function discover_templates(): Map<string, template_definition> {
+	const discovered = new Map<string, template_definition>();
+
+	let files: string[] = [];
+	try {
+		files = fs.readdirSync(TEMPLATES_DIR);
+	} catch (error) {
+		log.error("Could not read templates directory", { error });
+	}
+
+	for (const file of files) {
+		if (!file.endsWith(".html")) {
+			continue;
+		}
+
+		const name = file.slice(0, -".html".length);
+		if (!TEMPLATE_NAME_PATTERN.test(name)) {
+			continue;
+		}
+
+		const content = fs.readFileSync(path.join(TEMPLATES_DIR, file), "utf-8");
+		const definition = parse_declaration(name, content);
+		if (definition) {
+			discovered.set(name, definition);
+		}
+	}
+
+	registry = discovered;
+	return discovered;
+}
+
+export function list_templates(): template_definition[] {
+	return Array.from((registry || discover_templates()).values());
+}
+
+export function get_template_definition(
+	name: string
+): template_definition | undefined {
+	return (registry || discover_templates()).get(name);
+}
@@ -1,11 +1,25 @@
 import * as fs from "fs";
 import * as path from "path";
-import { template_data } from "../types/og-params";
+import { template_data, template_value } from "../types/og-params";
+import { compile_template, template_node } from "./template-engine";
+import { detect_text_script, text_script } from "./text-script";
+
+// Generated CSS injected into the template's <head>
+export interface render_styles {
+	css_variables?: Record<string, string>;
+	css?: string;
+}
+
+// Lookup scope: the root data plus one frame per {{#each}} level
+interface scope_frame {
+	value: template_value;
+	index?: number;
+}
 
 export class template_renderer {
-	private template_cache: Map<string, string> = new Map();
+	private template_cache: Map<string, template_node[]> = new Map();
 
-	private get_template(template_name: string): string {
+	private get_template(template_name: string): template_node[] {
 		if (this.template_cache.has(template_name)) {
 			return this.template_cache.get(template_name)!;
 		}
@@ -17,9 +31,10 @@ export class template_renderer {
 			`${template_name}.html`
 		);
 		const template_content = fs.readFileSync(template_path, "utf-8");
-		this.template_cache.set(template_name, template_content);
+		const compiled = compile_template(template_content);
+		this.template_cache.set(template_name, compiled);
 
-		return template_content;
+		return compiled;
 	}
 	private sanitise_text(text: string): string {
 		// Text is already decoded by Hono, so just escape HTML special characters
@@ -31,49 +46,160 @@ export class template_renderer {
 			.replace(/'/g, "&#39;");
 	}
 
-	private get_theme_colours(theme: "light" | "dark") {
-		const themes = {
-			light: {
-				background_colour: "#ffffff",
-				text_colour: "#1a1a1a",
-				accent_colour: "#3b82f6",
-			},
-			dark: {
-				background_colour: "#0f172a",
-				text_colour: "#f8fafc",
-				accent_colour: "#60a5fa",
-			},
-		};
-
-		return themes[theme];
+	private lookup(path: string, scopes: scope_frame[]): template_value {
+		const innermost = scopes[scopes.length - 1];
+		if (path === "this") {
+			return innermost.value;
+		}
+		if (path === "@index") {
+			return innermost.index;
+		}
+
+		const [head, ...rest] = path.split(".");
+		let value: template_value = undefined;
+
+		if (head === "this") {
+			value = innermost.value;
+		} else {
+			// Search from the innermost scope out to the root data
+			for (let i = scopes.length - 1; i >= 0; i--) {
+				const frame = scopes[i].value;
+				if (frame && typeof frame === "object" && !Array.isArray(frame)) {
+					// Legacy {{TITLE}} style placeholders map to lowercase fields
+					const key = head in frame ? head : head.toLowerCase();
+					if (key in frame) {
+						value = frame[key];
+						break;
+					}
+				}
+			}
+		}
+
+		for (const key of rest) {
+			if (!value || typeof value !== "object" || Array.isArray(value)) {
+				return undefined;
+			}
+			value = value[key];
+		}
+
+		return value;
+	}
+
+	private is_truthy(value: template_value): boolean {
+		if (Array.isArray(value)) {
+			return value.length > 0;
+		}
+		if (typeof value === "string") {
+			return value.trim().length > 0;
+		}
+		return Boolean(value);
+	}
+
+	private stringify(value: template_value): string {
+		if (value === undefined || value === null) {
+			return "";
+		}
+		if (Array.isArray(value)) {
+			return value.map((v) => this.stringify(v)).join(", ");
+		}
+		if (typeof value === "object") {
+			return "";
+		}
+		return String(value);
+	}
+
+	private render_nodes(nodes: template_node[], scopes: scope_frame[]): string {
+		let output = "";
+
+		for (const node of nodes) {
+			switch (node.type) {
+				case "text":
+					output += node.value;
+					break;
+				case "variable": {
+					const text = this.stringify(this.lookup(node.path, scopes));
+					output += node.raw ? text : this.sanitise_text(text);
+					break;
+				}
+				case "if": {
+					const truthy = this.is_truthy(this.lookup(node.path, scopes));
+					output += this.render_nodes(
+						truthy !== node.negate ? node.body : node.otherwise,
+						scopes
+					);
+					break;
+				}
+				case "each": {
+					const list = this.lookup(node.path, scopes);
+					if (Array.isArray(list) && list.length > 0) {
+						list.forEach((item, index) => {
+							output += this.render_nodes(node.body, [
+								...scopes,
+								{ value: item, index },
+							]);
+						});
+					} else {
+						output += this.render_nodes(node.otherwise, scopes);
+					}
+					break;
+				}
+			}
+		}
+
+		return output;
 	}
 
 	public render_template(
 		template_name: string,
-		data: Omit<
-			template_data,
-			"background_colour" | "text_colour" | "accent_colour"
-		>
+		data: template_data & Record<string, template_value>,
+		styles: render_styles = {}
 	): string {
 		const template = this.get_template(template_name);
 
-		let rendered = template;
+		// Values are HTML-escaped unless the template uses {{{raw}}}
+		const rendered = this.render_nodes(template, [{ value: data }]);
 
-		// Replace template placeholders with sanitized data
-		rendered = rendered.replace(
-			/\{\{TITLE\}\}/g,
-			this.sanitise_text(data.title)
-		);
-		rendered = rendered.replace(
-			/\{\{AUTHOR\}\}/g,
-			this.sanitise_text(data.author)
+		return this.inject_styles(
+			this.set_document_script(rendered, detect_text_script(data.title)),
+			styles
 		);
-		rendered = rendered.replace(
-			/\{\{WEBSITE\}\}/g,
-			this.sanitise_text(data.website)
-		);
-		rendered = rendered.replace(/\{\{THEME\}\}/g, data.theme);
+	}
+
+	// Set dir (and lang, for scripts that need one) on <html> from the title, so
+	// RTL titles lay out right-to-left and CJK text gets the right glyphs
+	private set_document_script(html: string, script: text_script): string {
+		return html.replace(/<html\b([^>]*)>/i, (_, attributes: string) => {
+			const kept = attributes.replace(
+				script.lang ? /\s(?:dir|lang)="[^"]*"/gi : /\sdir="[^"]*"/gi,
+				""
+			);
+			const lang = script.lang ? ` lang="${script.lang}"` : "";
+			return `<html${kept}${lang} dir="${script.dir}">`;
+		});
+	}
+
+	// Expose sizing, fonts etc. to template CSS as :root variables, plus any
+	// generated stylesheet (e.g. @font-face rules)
+	private inject_styles(html: string, styles: render_styles): string {
+		const declarations = Object.entries(styles.css_variables || {})
+			.filter(([name]) => /^--[a-z0-9-]+$/.test(name))
+			.map(([name, value]) => `${name}: ${value.replace(/[;{}<>]/g, "")};`)
+			.join(" ");
+
+		const css = [
+			styles.css ? styles.css.replace(/<\/style/gi, "") : "",
+			declarations ? `:root { ${declarations} }` : "",
+		]
+			.filter(Boolean)
+			.join("\n");
+
+		if (!css) {
+			return html;
+		}
 
-		return rendered;
+		const style = `<style id="og-variables">${css}</style>`;
+		return html.includes("</head>")
+			? html.replace("</head>", `${style}\n\t</head>`)
+			: style + html;
 	}
 }
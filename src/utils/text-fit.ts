@@ -0,0 +1,74 @@
+import { Page } from "playwright";
+import { text_fit_bounds, text_fit_result } from "../types/og-params";
+
+// Runs in the page (tsconfig has no DOM lib, hence a string). Binary-searches
+// the largest whole-pixel font size in [min_size, max_size] at which the
+// element wraps to at most max_lines lines without a word overflowing it. If
+// even min_size doesn't fit, the text is clamped to max_lines with an ellipsis
+const FIT_TEXT_SCRIPT = `(bounds) => {
+	const element = document.querySelector(bounds.selector);
+	if (!element) {
+		return null;
+	}
+
+	const measure = () => {
+		const style = getComputedStyle(element);
+		const line_height =
+			parseFloat(style.lineHeight) || parseFloat(style.fontSize) * 1.2;
+		return {
+			lines: Math.round(element.getBoundingClientRect().height / line_height),
+			overflows: element.scrollWidth > element.clientWidth + 1,
+		};
+	};
+	const fits = (size) => {
+		element.style.fontSize = size + "px";
+		const { lines, overflows } = measure();
+		return lines <= bounds.max_lines && !overflows;
+	};
+
+	let low = bounds.min_size;
+	let high = bounds.max_size;
+	while (low < high) {
+		const middle = Math.ceil((low + high) / 2);
+		if (fits(middle)) {
+			low = middle;
+		} else {
+			high = middle - 1;
+		}
+	}
+
+	const clamped = !fits(low);
+	if (clamped) {
+		element.style.setProperty("display", "-webkit-box");
+		element.style.setProperty("-webkit-box-orient", "vertical");
+		element.style.setProperty("-webkit-line-clamp", String(bounds.max_lines));
+		element.style.setProperty("overflow", "hidden");
+		element.style.setProperty("overflow-wrap", "anywhere");
+	}
+
+	return {
+		font_size: low,
+		lines: Math.min(measure().lines, bounds.max_lines),
+		clamped,
+	};
+}`;
+
+// Fit the template's text in a rendered page (fonts must already be loaded)
+export async function fit_text(
+	page: Page,
+	bounds: text_fit_bounds
+): Promise<text_fit_result | null> {
+	return page.evaluate(`(${FIT_TEXT_SCRIPT})(${JSON.stringify(bounds)})`);
+}
+
+// The same fitting for /og/preview, run by the viewer's browser once fonts load
+export function get_text_fit_preview_script(bounds: text_fit_bounds): string {
+	// Escape "<" so a selector can't close the script element
+	const json = JSON.stringify(bounds).replace(/</g, "\\u003c");
+	return `<script>document.fonts.ready.then(() => (${FIT_TEXT_SCRIPT})(${json}));</script>`;
+}
+
+// Debug header value, e.g. "56px; lines=2" or "36px; lines=4; clamped"
+export function format_text_fit(fit: text_fit_result): string {
+	return `${fit.font_size}px; lines=${fit.lines}${fit.clamped ? "; clamped" : ""}`;
+}
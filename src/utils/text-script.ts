@@ -0,0 +1,41 @@
+// Writing direction and language of a title, so the rendered page lays out
+// right-to-left for Arabic/Hebrew and picks the right CJK glyph variants
+export interface text_script {
+	dir: "ltr" | "rtl";
+	lang?: string; // Only set for scripts that need it, else the template's own
+}
+
+const RTL_LETTER =
+	/[\p{Script=Arabic}\p{Script=Hebrew}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}]/u;
+
+// Checked in order: kana means Japanese even when most characters are kanji
+const SCRIPT_LANGUAGES: [RegExp, string][] = [
+	[/[\p{Script=Hiragana}\p{Script=Katakana}]/u, "ja"],
+	[/\p{Script=Hangul}/u, "ko"],
+	[/\p{Script=Han}/u, "zh"],
+	[/\p{Script=Arabic}/u, "ar"],
+	[/\p{Script=Hebrew}/u, "he"],
+];
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+
+export function detect_text_script(text: string): text_script {
+	// Like dir="auto": the first letter decides, so a leading number, emoji or
+	// Latin brand name doesn't flip an otherwise Arabic title
+	const first_letter = text.match(/\p{L}/u)?.[0];
+
+	return {
+		dir: first_letter && RTL_LETTER.test(first_letter) ? "rtl" : "ltr",
+		lang: SCRIPT_LANGUAGES.find(([pattern]) => pattern.test(text))?.[1],
+	};
+}
+
+// User-perceived characters: "👩‍💻" or "é" (e + combining accent) count as one,
+// where String.length counts UTF-16 code units
+export function count_graphemes(text: string): number {
+	let count = 0;
+	for (const _ of segmenter.segment(text)) {
+		count++;
+	}
+	return count;
+}
@@ -0,0 +1,148 @@
+import * as fs from "fs";
+import * as path from "path";
+import { colour_overrides } from "../types/og-params";
+import { log } from "./logger";
+
+export const THEMES_FILE =
+	process.env.THEMES_FILE || path.join(process.cwd(), "config", "themes.json");
+export const DEFAULT_THEME = "light";
+
+const THEME_NAME_PATTERN = /^[a-z0-9][a-z0-9\-_]*$/;
+const HEX_COLOUR_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export interface theme_palette {
+	base: "light" | "dark"; // Which template styles the palette builds on
+	background: string;
+	text: string;
+	accent: string;
+}
+
+// Built-in palettes - templates already style these, so they emit no variables
+const BUILT_IN_THEMES: Record<string, theme_palette> = {
+	light: {
+		base: "light",
+		background: "#ffffff",
+		text: "#1a1a1a",
+		accent: "#3b82f6",
+	},
+	dark: {
+		base: "dark",
+		background: "#0f172a",
+		text: "#f8fafc",
+		accent: "#60a5fa",
+	},
+};
+
+let custom_themes: Map<string, theme_palette> | null = null;
+
+// Normalise "abc", "#ABC" or "#aabbcc" to "#aabbcc"; null when invalid
+export function parse_hex_colour(value: string): string | null {
+	const match = value.trim().match(HEX_COLOUR_PATTERN);
+	if (!match) {
+		return null;
+	}
+	const hex =
+		match[1].length === 3
+			? match[1]
+					.split("")
+					.map((c) => c + c)
+					.join("")
+			: match[1];
+	return `#${hex.toLowerCase()}`;
+}
+
+// Blend two #rrggbb colours, amount 0 = a, 1 = b
+function mix_colours(a: string, b: string, amount: number): string {
+	const channels = (hex: string) =>
+		[1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+	const [from, to] = [channels(a), channels(b)];
+	return `#${from
+		.map((c, i) =>
+			Math.round(c + (to[i] - c) * amount)
+				.toString(16)
+				.padStart(2, "0")
+		)
+		.join("")}`;
+}
+
+export function load_themes(): Map<string, theme_palette> {
+	const loaded = new Map<string, theme_palette>();
+
+	let config: Record<string, Partial<theme_palette>> = {};
+	try {
+		config = JSON.parse(fs.readFileSync(THEMES_FILE, "utf-8"));
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+			log.error("Could not load themes file", { error });
+		}
+	}
+
+	for (const [name, theme] of Object.entries(config)) {
+		const background = parse_hex_colour(String(theme.background ?? ""));
+		const text = parse_hex_colour(String(theme.text ?? ""));
+		const accent = parse_hex_colour(String(theme.accent ?? ""));
+
+		if (!THEME_NAME_PATTERN.test(name) || !background || !text || !accent) {
+			log.warn(
+				"Theme needs a lowercase name and hex background, text and accent colours, skipping",
+				{ theme: name }
+			);
+			continue;
+		}
+
+		loaded.set(name, {
+			base: theme.base === "dark" ? "dark" : "light",
+			background,
+			text,
+			accent,
+		});
+	}
+
+	custom_themes = loaded;
+	return loaded;
+}
+
+export function list_themes(): string[] {
+	return Array.from(
+		new Set([
+			...Object.keys(BUILT_IN_THEMES),
+			...(custom_themes || load_themes()).keys(),
+		])
+	);
+}
+
+export function get_theme(name: string): theme_palette | undefined {
+	return (
+		(custom_themes || load_themes()).get(name) ||
+		(Object.hasOwn(BUILT_IN_THEMES, name) ? BUILT_IN_THEMES[name] : undefined)
+	);
+}
+
+// Final palette plus the CSS variables to inject for it
+export function resolve_palette(
+	theme_name: string,
+	overrides: colour_overrides = {}
+): { palette: theme_palette; css_variables: Record<string, string> } {
+	const theme = get_theme(theme_name) || BUILT_IN_THEMES[DEFAULT_THEME];
+	const palette: theme_palette = { ...theme, ...overrides };
+
+	const customised =
+		(custom_themes || load_themes()).has(theme_name) ||
+		Object.values(overrides).some(Boolean);
+	if (!customised) {
+		return { palette, css_variables: {} };
+	}
+
+	const { background, text, accent } = palette;
+	return {
+		palette,
+		css_variables: {
+			"--og-background": background,
+			"--og-background-mid": mix_colours(background, text, 0.08),
+			"--og-background-end": mix_colours(background, text, 0.16),
+			"--og-text": text,
+			"--og-text-muted": mix_colours(text, background, 0.35),
+			"--og-accent": accent,
+		},
+	};
+}
@@ -0,0 +1,135 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+
+// Signing keys as "kid:secret" pairs, newest first - the first key signs new URLs
+// e.g. OG_SIGNING_KEYS=2025-01:new-secret,2024-06:old-secret
+export interface signing_key {
+	kid: string;
+	secret: string;
+}
+
+export function parse_signing_keys(
+	value: string | undefined = process.env.OG_SIGNING_KEYS
+): signing_key[] {
+	return (value || "")
+		.split(",")
+		.map((pair) => pair.trim())
+		.filter(Boolean)
+		.map((pair) => {
+			const separator = pair.indexOf(":");
+			return separator === -1
+				? { kid: "default", secret: pair }
+				: { kid: pair.slice(0, separator), secret: pair.slice(separator + 1) };
+		})
+		.filter((key) => key.kid && key.secret);
+}
+
+// Sorted, percent-encoded query string without the signature itself
+export function canonicalise_query(
+	query: Record<string, string | undefined>
+): string {
+	return Object.keys(query)
+		.filter((key) => key !== "sig" && query[key] !== undefined)
+		.sort()
+		.map(
+			(key) =>
+				`${encodeURIComponent(key)}=${encodeURIComponent(query[key] as string)}`
+		)
+		.join("&");
+}
+
+export function compute_signature(
+	path: string,
+	query: Record<string, string | undefined>,
+	secret: string
+): string {
+	return createHmac("sha256", secret)
+		.update(`${path}?${canonicalise_query(query)}`)
+		.digest("base64url");
+}
+
+// POST /og signatures cover the JSON body through this digest, signed as if
+// it were a body_sha256 query parameter
+export function hash_body(body: string): string {
+	return createHash("sha256").update(body).digest("hex");
+}
+
+export type signature_result =
+	| { valid: true; kid: string }
+	| { valid: false; reason: string };
+
+export function verify_signature(
+	path: string,
+	query: Record<string, string | undefined>,
+	keys: signing_key[] = parse_signing_keys(),
+	now: number = Date.now()
+): signature_result {
+	const { sig, kid, exp } = query;
+	if (!sig) {
+		return { valid: false, reason: "Missing signature" };
+	}
+
+	const key = kid ? keys.find((k) => k.kid === kid) : keys[0];
+	if (!key) {
+		return { valid: false, reason: "Unknown signing key" };
+	}
+
+	if (exp !== undefined) {
+		const expires_at = Number(exp);
+		if (!Number.isFinite(expires_at)) {
+			return { valid: false, reason: "Invalid expiry" };
+		}
+		if (expires_at * 1000 < now) {
+			return { valid: false, reason: "Signature expired" };
+		}
+	}
+
+	const expected = Buffer.from(compute_signature(path, query, key.secret));
+	const provided = Buffer.from(sig);
+	if (
+		expected.length !== provided.length ||
+		!timingSafeEqual(expected, provided)
+	) {
+		return { valid: false, reason: "Invalid signature" };
+	}
+
+	return { valid: true, kid: key.kid };
+}
+
+// Build a signed image URL, e.g. for emitting og:image tags at site build time.
+// Pass body to sign a POST /og request instead (params are then usually empty)
+export function sign_og_url(
+	base_url: string,
+	params: Record<string, string>,
+	options: {
+		key?: signing_key;
+		expires_in?: number;
+		path?: string;
+		body?: string;
+	} = {}
+): string {
+	const key = options.key || parse_signing_keys()[0];
+	if (!key) {
+		throw new Error("No signing key configured (set OG_SIGNING_KEYS)");
+	}
+
+	const path = options.path || "/og";
+	const query: Record<string, string> = { ...params, kid: key.kid };
+	if (options.expires_in) {
+		query.exp = String(Math.floor(Date.now() / 1000) + options.expires_in);
+	}
+
+	const sig = compute_signature(
+		path,
+		options.body === undefined
+			? query
+			: { ...query, body_sha256: hash_body(options.body) },
+		key.secret
+	);
+	const url = new URL(path, base_url);
+	for (const [name, value] of Object.entries(query)) {
+		url.searchParams.set(name, value);
+	}
+	url.searchParams.set("sig", sig);
+
+	return url.toString();
+}